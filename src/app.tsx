@@ -1,18 +1,148 @@
 import * as React from 'react'
-import { Dispatch } from 'raj-ts'
+import { Change, Dispatch } from 'raj-ts'
 import { withSubscriptions } from 'raj-ts/lib/subscription'
-
-type Shape = {
-  points: Point[]
-}
-
-type Size = {
-  width: number
-  height: number
+import { renderResultCard } from './card'
+import {
+  Challenge,
+  encodeChallenge,
+  getChallengeFromLocation,
+  isChallengeBeaten,
+} from './challenge'
+import { ColorResult, makeRandomHexColor, scoreColorGuess } from './color'
+import {
+  DailyResults,
+  finishDailyAttempt,
+  getDailyKey,
+  getDailySeed,
+  getDailyStreak,
+  loadDailyResults,
+  startDailyAttempt,
+} from './daily'
+import {
+  drawCaption,
+  drawColorSwatches,
+  drawShapeRemainder,
+  drawShapeToCanvas,
+  drawStroke,
+  drawStrokes,
+  getHeatmapCssColor,
+  getLineWidthForCanvasSize,
+  makeHeatmapUrl,
+  makeThumbnailUrl,
+} from './draw'
+import {
+  canvasToBlob,
+  dataUrlToBlob,
+  downloadBlob,
+  renderRoundGif,
+  renderRoundSvg,
+  Round,
+  shareImage,
+  ShareTarget,
+} from './export'
+import { focusDialog, handleDialogKeyDown, restoreFocus } from './focus'
+import {
+  getFitTransform,
+  Shape,
+  Size,
+  Stroke,
+  StrokePoint,
+  strokeChunkSize,
+  Tool,
+} from './geometry'
+import {
+  formatScore,
+  GameRecord,
+  getHistoryStats,
+  loadHistory,
+  saveGameRecord,
+} from './history'
+import {
+  getMetricInfo,
+  loadHeadlineMetric,
+  measureDrawing,
+  MetricId,
+  metrics,
+  Metrics,
+  saveHeadlineMetric,
+} from './metrics'
+import { gameModes, GameModeId, getGameMode } from './modes'
+import {
+  addPartyResult,
+  getPartyRanking,
+  isPartyOver,
+  makeParty,
+  Party,
+  partyPlayerCounts,
+} from './party'
+import {
+  getSeedFromLocation,
+  makeSeed,
+  makeSeededRandom,
+  Random,
+} from './random'
+import { floodFill, growMask } from './raster'
+import {
+  defaultReveal,
+  getErasedFraction,
+  getRevealOpacity,
+  getRevealStyle,
+  isDefaultReveal,
+  peekCost,
+  peekLength,
+  Reveal,
+  RevealStyleId,
+  revealStyles,
+} from './reveal'
+import {
+  makeInkMask,
+  PixelClass,
+  scoreDrawing,
+  scoreTracing,
+  TracingResult,
+} from './scoring'
+import {
+  clampSetting,
+  defaultSettings,
+  getMinPointsFromLocation,
+  isStandardSettings,
+  loadSettings,
+  NumberSettingId,
+  numberSettings,
+  saveSettings,
+  Settings,
+} from './settings'
+import {
+  fitShapeToArea,
+  getShapeFamilyFromLocation,
+  makeRandomShape,
+  shapeFamilies,
+  ShapeFamilyId,
+} from './shapes'
+import {
+  getColorMatrixValues,
+  getVision,
+  pickVisionColors,
+  VisionId,
+  visions,
+} from './vision'
+
+type Replay = {
+  time: number
+  speed: number
+  playing: boolean
+  lastTickAt: number
 }
 
 type Model = {
-  page: 'home' | 'game' | 'game-over'
+  page:
+    | 'home'
+    | 'game'
+    | 'color-pick'
+    | 'game-over'
+    | 'stats'
+    | 'party-results'
+    | 'settings'
   homeColor: string
   shape: Shape
   windowSize: Size
@@ -24,299 +154,1106 @@ type Model = {
   offscreenCanvasElement: HTMLCanvasElement
   foregroundCtx: CanvasRenderingContext2D | undefined
   backgroundCtx: CanvasRenderingContext2D | undefined
+  seed: number
+  requestedSeed: number | undefined
+  requestedMinPoints: number
+  shapeFamily: ShapeFamilyId
+  timeLimit: number | undefined
+  gameTimeLimit: number | undefined
+  revealStyle: RevealStyleId
+  // The saved settings, and the ones the current game is played with
+  settings: Settings
+  gameSettings: Settings
+  gameReveal: Reveal
+  peekStart: number | undefined
+  peeks: number
+  // The challenge opened from a link, and the one the current game plays
+  challenge: Challenge | undefined
+  gameChallenge: Challenge | undefined
+  challengeWon: boolean | undefined
+  challengeUrl: string | undefined
+  challengeLinkCopied: boolean
+  sharedTo: ShareTarget | undefined
+  // Made at game over, as sharing must start right from the click
+  resultCard: Blob | undefined
+  mode: GameModeId
+  gameMode: GameModeId
+  // Only set in color memory games
+  targetColor: string | undefined
+  vision: VisionId
+  gameVision: VisionId
+  playerCount: number
+  party: Party | undefined
+  // Only set when simulating a color vision deficiency
+  gameBackground: string | undefined
+  colorGuess: string
+  dailyKey: string | undefined
+  dailyResults: DailyResults
   gameStart: number
   gameLength: number
-
-  drawPointBuffer: Point[]
+  // The shape and strokes of a game are kept in the canvas coordinates it
+  // started with, and fitted to the canvas as it is now when drawn. That
+  // way resizing during a game doesn't change the drawing or its score.
+  gameArea: Size
+  gamePixelRatio: number
+
+  strokes: Stroke[]
+  redoStrokes: Stroke[]
+  tool: Tool
+  brushSize: number
+  drawPointBuffer: StrokePoint[]
+  // The one pointer drawing the current stroke, others are ignored
+  activePointerId: number | undefined
+  penUsed: boolean
   lastDrawnAt: number
+  replay: Replay | undefined
 
   pixelsFilled: number
   pixelsOverfilled: number
   pixelsUnderFilled: number
 
   finalUrl: string | undefined
+  heatmapUrl: string | undefined
+  heatmapOpen: boolean
+  metrics: Metrics | undefined
+  tracing: TracingResult | undefined
+  colorResult: ColorResult | undefined
+  headlineMetric: MetricId
+  exportingGif: boolean
+  history: GameRecord[]
+  openHistoryRecordId: number | undefined
   scoreExplainerOpen: boolean
+  reducedMotion: boolean
   score: string | undefined
 }
 
 type Msg =
-  | { type: 'start_game' }
+  | { type: 'start_game'; seed?: number; daily?: boolean }
+  | { type: 'set_shape_family'; shapeFamily: ShapeFamilyId }
+  | { type: 'set_time_limit'; timeLimit: number | undefined }
+  | { type: 'set_reveal_style'; style: RevealStyleId }
+  | { type: 'open_settings' }
+  | { type: 'close_settings' }
+  | { type: 'set_setting'; id: NumberSettingId; value: number }
+  | { type: 'set_ink_color'; color: string }
+  | { type: 'reset_settings' }
+  | { type: 'peek_start' }
+  | { type: 'peek_end' }
+  | { type: 'set_mode'; mode: GameModeId }
+  | { type: 'set_vision'; vision: VisionId }
+  | { type: 'set_player_count'; playerCount: number }
+  | { type: 'open_party_results' }
+  | { type: 'close_party_results' }
   | { type: 'end_game' }
+  | { type: 'set_color_guess'; color: string }
+  | { type: 'submit_color_guess' }
   | {
       type: 'canvas_mounted'
       kind: 'foreground' | 'background'
       canvasElement: HTMLCanvasElement
     }
   | { type: 'canvas_render' }
-  | { type: 'canvas_draw'; windowX: number; windowY: number }
-  | { type: 'canvas_draw_end' }
+  | {
+      type: 'canvas_pointer_down'
+      pointerId: number
+      pointerType: string
+      contactSize: number
+      input: PointerInput
+    }
+  | { type: 'canvas_draw'; pointerId: number; inputs: PointerInput[] }
+  | { type: 'canvas_draw_end'; pointerId: number }
+  | { type: 'set_tool'; tool: Tool }
+  | { type: 'set_brush_size'; brushSize: number }
+  | { type: 'step_brush_size'; step: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
   | { type: 'window_resize'; width: number; height: number }
   | { type: 'home_carousel_tick' }
   | { type: 'game_tick' }
   | { type: 'open_score_explainer' }
   | { type: 'dismiss_score_explainer' }
+  | { type: 'toggle_heatmap' }
+  | { type: 'set_reduced_motion'; reducedMotion: boolean }
+  | { type: 'set_headline_metric'; metric: MetricId }
+  | { type: 'open_replay' }
+  | { type: 'toggle_replay' }
+  | { type: 'set_replay_speed'; speed: number }
+  | { type: 'replay_tick' }
+  | { type: 'close_replay' }
+  | { type: 'export_gif' }
+  | { type: 'gif_exported' }
+  | { type: 'export_svg' }
+  | { type: 'result_card_ready'; gameStart: number; card: Blob }
+  | { type: 'share_result' }
+  | { type: 'result_shared'; target: ShareTarget | undefined }
+  | { type: 'challenge_friend' }
+  | { type: 'challenge_link_copied' }
+  | { type: 'open_stats' }
+  | { type: 'close_stats' }
+  | { type: 'open_history_record'; id: number }
+  | { type: 'dismiss_history_record' }
+
+const randomBetween = (min: number, max: number, random: Random) =>
+  min + Math.floor(random() * (max - min + 1))
+
+function makeRandomColor(random: Random) {
+  const r = randomBetween(0, 255, random)
+  const g = randomBetween(0, 255, random)
+  const b = randomBetween(0, 255, random)
+  return `rgb(${r},${g},${b})`
+}
 
-function makeRandomPoint(viewPort: Size): Point {
-  return {
-    x: Math.floor(Math.random() * (viewPort.width - 20)) + 10,
-    y: Math.floor(Math.random() * (viewPort.height - 20)) + 10,
+function getReplayLength(strokes: Stroke[]): number {
+  const lastStroke = strokes[strokes.length - 1]
+  if (!lastStroke) {
+    return 0
   }
+
+  return lastStroke.points[lastStroke.points.length - 1].time
 }
 
-type Point = { x: number; y: number }
+const replaySpeeds = [1, 2, 4]
 
-function pointComparator(a: Point, b: Point): number {
-  if (a.x < b.x) {
-    return -1
-  }
+const timeLimits = [10, 20, 30]
 
-  if (a.x > b.x) {
-    return +1
+// The clock only starts once the shape has gone away
+function getTimeLeft(model: Model, now: number): number {
+  return model.gameTimeLimit
+    ? Math.max(
+        0,
+        model.gameTimeLimit * 1000 -
+          (now - model.gameStart - model.gameReveal.time)
+      )
+    : Infinity
+}
+
+function isPeeking(model: Model, now: number): boolean {
+  return model.peekStart !== undefined && now - model.peekStart < peekLength
+}
+
+// Draws what's left of the outline while it's being erased
+function drawErasingShape(model: Model, now: number) {
+  const { foregroundCtx, canvasViewSize } = model
+  if (!foregroundCtx) {
+    return
   }
 
-  if (a.y < b.y) {
-    return -1
+  foregroundCtx.clearRect(0, 0, canvasViewSize.width, canvasViewSize.height)
+  drawInGameArea(model, foregroundCtx, () =>
+    drawShapeRemainder(
+      foregroundCtx,
+      model.gameArea,
+      model.gamePixelRatio,
+      model.shape,
+      model.homeColor,
+      getErasedFraction(model.gameReveal, now - model.gameStart),
+      model.gameSettings.lineWidthScale
+    )
+  )
+}
+
+function getCaption(
+  score: string | undefined,
+  gameLength: number,
+  timeLimit: number | undefined,
+  gameMode: GameModeId,
+  visionId: VisionId,
+  settings: Settings
+): string {
+  const verb = gameMode === 'trace' ? 'Traced' : 'Colored'
+  const caption = timeLimit
+    ? `${verb} ${score} in a ${timeLimit} second round`
+    : `${verb} ${score} in ${Math.floor(gameLength / 1000)} seconds`
+  const rules = isStandardSettings(settings) ? 'standard' : 'custom'
+  return visionId === 'normal'
+    ? `${caption}, ${rules} rules`
+    : `${caption} with ${getVision(
+        visionId
+      ).label.toLowerCase()}, ${rules} rules`
+}
+
+function renderModelCard(model: Model): HTMLCanvasElement {
+  const round = getRound(model)
+  return renderResultCard({
+    shape: model.shape,
+    strokes: model.strokes,
+    area: model.gameArea,
+    pixelRatio: model.gamePixelRatio,
+    shapeColor: round.shapeColor,
+    background: round.background,
+    lineStyle: model.gameSettings,
+    custom: !isStandardSettings(model.gameSettings),
+    score: model.score || '',
+    gameLength: model.gameLength,
+    mode: model.gameMode,
+    date: new Date(model.gameStart),
+  })
+}
+
+function getRound(model: Model): Round {
+  return {
+    shape: model.shape,
+    strokes: model.strokes,
+    canvasViewSize: model.gameArea,
+    pixelRatio: model.gamePixelRatio,
+    reveal: model.gameReveal,
+    caption: getCaption(
+      model.score,
+      model.gameLength,
+      model.gameTimeLimit,
+      model.gameMode,
+      model.gameVision,
+      model.gameSettings
+    ),
+    shapeColor: model.homeColor,
+    background: model.gameBackground || '#fff',
+    lineStyle: model.gameSettings,
   }
+}
+
+function drawInGameArea(
+  model: Model,
+  ctx: CanvasRenderingContext2D,
+  draw: () => void
+) {
+  const { scale, offsetX, offsetY } = getFitTransform(
+    model.gameArea,
+    model.canvasViewSize
+  )
+  ctx.save()
+  ctx.setTransform(scale, 0, 0, scale, offsetX, offsetY)
+  draw()
+  ctx.restore()
+}
 
-  if (a.y > b.y) {
-    return +1
+// Redraws the ink from the stroke list, up to the replay time if replaying
+function redrawStrokes(model: Model) {
+  const { backgroundCtx, canvasViewSize, strokes, replay } = model
+  if (!backgroundCtx) {
+    return
   }
 
-  return 0
+  backgroundCtx.clearRect(0, 0, canvasViewSize.width, canvasViewSize.height)
+  drawInGameArea(model, backgroundCtx, () =>
+    drawStrokes(
+      backgroundCtx,
+      model.gameArea,
+      model.gamePixelRatio,
+      strokes,
+      replay ? replay.time : Infinity,
+      model.gameSettings
+    )
+  )
 }
 
-// Modernized from https://www.nayuki.io/res/convex-hull-algorithm/convex-hull.ts
-function makeHullPresorted(points: Readonly<Array<Point>>): Array<Point> {
-  if (points.length <= 1) return points.slice()
-
-  // Andrew's monotone chain algorithm. Positive y coordinates correspond to "up"
-  // as per the mathematical convention, instead of "down" as per the computer
-  // graphics convention. This doesn't affect the correctness of the result.
-
-  let upperHull: Array<Point> = []
-  for (let i = 0; i < points.length; i++) {
-    const p: Point = points[i]
-    while (upperHull.length >= 2) {
-      const q: Point = upperHull[upperHull.length - 1]
-      const r: Point = upperHull[upperHull.length - 2]
-      if ((q.x - r.x) * (p.y - r.y) >= (q.y - r.y) * (p.x - r.x))
-        upperHull.pop()
-      else break
+// The canvas sizes are set here rather than in the view, because setting
+// them clears the canvas and the drawing has to be redrawn right after.
+function resizeCanvases(model: Model) {
+  const { width, height } = model.canvasViewSize
+  for (const canvas of [
+    model.foregroundCanvasElement,
+    model.backgroundCanvasElement,
+  ]) {
+    if (canvas && (canvas.width !== width || canvas.height !== height)) {
+      canvas.width = width
+      canvas.height = height
     }
-    upperHull.push(p)
   }
-  upperHull.pop()
-
-  let lowerHull: Array<Point> = []
-  for (let i = points.length - 1; i >= 0; i--) {
-    const p: Point = points[i]
-    while (lowerHull.length >= 2) {
-      const q: Point = lowerHull[lowerHull.length - 1]
-      const r: Point = lowerHull[lowerHull.length - 2]
-      if ((q.x - r.x) * (p.y - r.y) >= (q.y - r.y) * (p.x - r.x))
-        lowerHull.pop()
-      else break
-    }
-    lowerHull.push(p)
+}
+
+// Home shows the shape across the whole canvas, the drawing area unused
+function drawHomeShape(model: Model) {
+  const { foregroundCtx } = model
+  if (foregroundCtx && model.shape.points.length) {
+    drawShapeToCanvas(
+      foregroundCtx,
+      model.canvasViewSize,
+      window.devicePixelRatio,
+      model.shape,
+      model.homeColor,
+      false,
+      true,
+      model.settings.lineWidthScale
+    )
+  }
+}
+
+// Daily shapes are generated in a fixed area and then scaled to fit
+// so every player draws the same outline regardless of their screen.
+const dailyShapeAreaSize: Size = { width: 1200, height: 740 }
+
+type PointerInput = {
+  windowX: number
+  windowY: number
+  // Undefined for anything but a pen
+  pressure: number | undefined
+}
+
+// Touches wider than this, in CSS pixels, are taken to be a palm
+const palmContactSize = 40
+
+function getPointerInput(e: PointerEvent): PointerInput {
+  return {
+    windowX: e.clientX,
+    windowY: e.clientY,
+    pressure: e.pointerType === 'pen' ? e.pressure : undefined,
   }
-  lowerHull.pop()
+}
 
-  if (
-    upperHull.length === 1 &&
-    lowerHull.length === 1 &&
-    upperHull[0].x === lowerHull[0].x &&
-    upperHull[0].y === lowerHull[0].y
+function getStrokePoint(model: Model, input: PointerInput): StrokePoint {
+  const rect = model.backgroundCanvasElement!.getBoundingClientRect()
+  const { scale, offsetX, offsetY } = getFitTransform(
+    model.gameArea,
+    model.canvasViewSize
   )
-    return upperHull
-  else return upperHull.concat(lowerHull)
+  const point: StrokePoint = {
+    x:
+      ((input.windowX - rect.left) * window.devicePixelRatio - offsetX) / scale,
+    y: ((input.windowY - rect.top) * window.devicePixelRatio - offsetY) / scale,
+    time: Date.now() - model.gameStart,
+  }
+
+  if (input.pressure !== undefined) {
+    point.pressure = input.pressure
+  }
+
+  return point
 }
 
-function makeLines(points: Point[]): [Point, Point][] {
-  const lines: [Point, Point][] = []
+// Extends the current stroke, or starts one, painting every full chunk
+function addDrawPoints(
+  model: Model,
+  points: StrokePoint[]
+): Change<Msg, Model> {
+  const { strokes } = model
+  let { redoStrokes, drawPointBuffer } = model
+  const chunks: StrokePoint[][] = []
+  for (const point of points) {
+    if (drawPointBuffer.length) {
+      strokes[strokes.length - 1].points.push(point)
+    } else {
+      // A new stroke makes the undone ones unreachable
+      strokes.push({
+        tool: model.tool === 'eraser' ? 'eraser' : 'brush',
+        size: model.brushSize,
+        points: [point],
+      })
+      redoStrokes = []
+    }
 
-  const [start, ...rest] = points
+    if (drawPointBuffer.length < strokeChunkSize) {
+      drawPointBuffer.push(point)
+    } else {
+      chunks.push(drawPointBuffer.concat(point))
+      drawPointBuffer = [point]
+    }
+  }
 
-  for (let i = 0; i < points.length; i++) {
-    lines.push([points[i], rest[i]])
+  const newModel = { ...model, redoStrokes, drawPointBuffer }
+  const { backgroundCtx } = model
+  if (!chunks.length || !backgroundCtx) {
+    return [newModel]
   }
 
-  lines[points.length - 1][1] = start
-  return lines
+  const stroke = strokes[strokes.length - 1]
+  return [
+    newModel,
+    () =>
+      drawInGameArea(model, backgroundCtx, () => {
+        for (const chunk of chunks) {
+          drawStroke(
+            backgroundCtx,
+            model.gameArea,
+            model.gamePixelRatio,
+            stroke,
+            chunk,
+            model.gameSettings
+          )
+        }
+      }),
+  ]
 }
 
-function makeRandomShape(viewPort: Size): Shape {
-  const randomPoints = []
-  const count = 10 + Math.floor(Math.random() * 6)
-  for (let i = 0; i < count; i++) {
-    randomPoints.push(makeRandomPoint(viewPort))
+function fillAt(model: Model, point: StrokePoint): Change<Msg, Model> {
+  const { backgroundCtx } = model
+  if (!backgroundCtx) {
+    return [model]
+  }
+
+  const ink = makeInkMask(
+    model.gameArea,
+    model.strokes,
+    getLineWidthForCanvasSize(
+      model.gameArea,
+      model.gamePixelRatio,
+      model.gameSettings.lineWidthScale
+    )
+  )
+  const region = floodFill(ink, point)
+  if (!region) {
+    return [model]
   }
 
-  const hull = makeHullPresorted(randomPoints.sort(pointComparator))
-
-  const innerView = { width: viewPort.width / 4, height: viewPort.height / 4 }
-  const [top, bottom] = [makeRandomPoint(innerView), makeRandomPoint(innerView)]
-    .map((p, i) => ({
-      x: p.x + innerView.width * (i === 0 ? 0.75 : 1.25),
-      y: p.y + innerView.height * (i === 0 ? 0.75 : 1.25),
-    }))
-    .sort(pointComparator)
-
-  const a = Math.floor(Math.random() * (hull.length / 2))
-  const b = Math.floor(Math.random() * (hull.length / 2) + hull.length / 2)
-
-  hull.splice(a, 0, top)
-  hull.splice(b, 0, bottom)
-  const points = hull
-
-  const lines = makeLines(points)
-
-  if (
-    lines.some((line) =>
-      lines.some((l) =>
-        intersects(
-          line[0].x,
-          line[0].y,
-          line[1].x,
-          line[1].y,
-          l[0].x,
-          l[0].y,
-          l[1].x,
-          l[1].y
+  // Cover the antialiased edges of the ink around the region
+  growMask(region, Math.ceil(model.gamePixelRatio))
+
+  const stroke: Stroke = { tool: 'fill', points: [point], region }
+  return [
+    { ...model, strokes: [...model.strokes, stroke], redoStrokes: [] },
+    () =>
+      drawInGameArea(model, backgroundCtx, () =>
+        drawStroke(
+          backgroundCtx,
+          model.gameArea,
+          model.gamePixelRatio,
+          stroke,
+          [point],
+          model.gameSettings
         )
+      ),
+  ]
+}
+
+function finishGame(model: Model, gameLength: number): Change<Msg, Model> {
+  const {
+    offscreenCanvasElement,
+    backgroundCanvasElement,
+    foregroundCanvasElement,
+  } = model
+  offscreenCanvasElement.width = backgroundCanvasElement!.width
+  offscreenCanvasElement.height = backgroundCanvasElement!.height
+
+  // The erased outline comes back for the result
+  const { foregroundCtx } = model
+  if (model.gameReveal.style === 'erase' && foregroundCtx) {
+    drawInGameArea(model, foregroundCtx, () =>
+      drawShapeToCanvas(
+        foregroundCtx,
+        model.gameArea,
+        model.gamePixelRatio,
+        model.shape,
+        model.homeColor,
+        false,
+        false,
+        model.gameSettings.lineWidthScale
       )
     )
-  ) {
-    return makeRandomShape(viewPort)
   }
 
-  const range = Math.min(viewPort.width, viewPort.height) / 10
-  if (points.some((a) => points.some((b) => a !== b && nearBy(a, b, range)))) {
-    return makeRandomShape(viewPort)
+  const lineWidth = getLineWidthForCanvasSize(
+    model.gameArea,
+    model.gamePixelRatio,
+    model.gameSettings.lineWidthScale
+  )
+  const scoringResult = scoreDrawing({
+    shape: model.shape,
+    strokes: model.strokes,
+    size: model.gameArea,
+    pixelRatio: model.gamePixelRatio,
+    lineWidth,
+  })
+  const { pixelsFilled, pixelsOverfilled, pixelsUnderFilled, classification } =
+    scoringResult
+  const metrics = measureDrawing(
+    scoringResult,
+    model.gameSettings.penaltyFactor
+  )
+  const tracing =
+    model.gameMode === 'trace'
+      ? scoreTracing({
+          shape: model.shape,
+          strokes: model.strokes,
+          size: model.gameArea,
+          pixelRatio: model.gamePixelRatio,
+          lineWidth,
+        })
+      : undefined
+
+  // The classification grid is in CSS pixels of the game area
+  const gameTransform = getFitTransform(model.gameArea, model.canvasViewSize)
+  const heatmapUrl = makeHeatmapUrl(classification, model.canvasViewSize, {
+    ...gameTransform,
+    scale: gameTransform.scale * model.gamePixelRatio,
+  })
+
+  const offscreenCtx = offscreenCanvasElement.getContext('2d')!
+  offscreenCtx.fillStyle = model.gameBackground || '#fff'
+  offscreenCtx.fillRect(
+    0,
+    0,
+    model.canvasViewSize.width,
+    model.canvasViewSize.height
+  )
+
+  offscreenCtx.drawImage(
+    backgroundCanvasElement!,
+    0,
+    0,
+    model.canvasViewSize.width,
+    model.canvasViewSize.height,
+    0,
+    0,
+    model.canvasViewSize.width,
+    model.canvasViewSize.height
+  )
+  offscreenCtx.drawImage(
+    foregroundCanvasElement!,
+    0,
+    0,
+    model.canvasViewSize.width,
+    model.canvasViewSize.height,
+    0,
+    0,
+    model.canvasViewSize.width,
+    model.canvasViewSize.height
+  )
+
+  const colorResult =
+    model.gameMode === 'color' && model.targetColor
+      ? scoreColorGuess(model.targetColor, model.colorGuess)
+      : undefined
+  if (colorResult) {
+    drawColorSwatches(
+      offscreenCtx,
+      model.canvasViewSize,
+      colorResult.target,
+      colorResult.guess
+    )
   }
 
-  return { points }
-}
+  const thumbnailUrl = makeThumbnailUrl(offscreenCanvasElement, 240)
+
+  // Remembering the color scales the drawing's score, and peeking costs
+  const scoreValue =
+    (tracing
+      ? tracing.score
+      : colorResult
+      ? (metrics.colored * colorResult.score) / 100
+      : metrics.colored) -
+    model.peeks * peekCost
+  const score = formatScore(scoreValue)
+  const seconds = Math.floor(gameLength / 1000)
+
+  drawCaption(
+    offscreenCtx,
+    model.canvasViewSize,
+    getCaption(
+      score,
+      gameLength,
+      model.gameTimeLimit,
+      model.gameMode,
+      model.gameVision,
+      model.gameSettings
+    )
+  )
+
+  const finalUrl = offscreenCanvasElement.toDataURL()
+
+  // The seed goes along so a color challenge shows the same colors
+  const challengeUrl = `${window.location.origin}${
+    window.location.pathname
+  }?seed=${model.seed}&${encodeChallenge({
+    shape: model.shape,
+    area: getShapeDrawAreaSize(model.gameArea),
+    mode: model.gameMode,
+    score: scoreValue,
+    gameLength,
+    rules: {
+      timeLimit: model.gameTimeLimit,
+      reveal: model.gameReveal,
+      vision: model.gameVision,
+      penaltyFactor: model.gameSettings.penaltyFactor,
+      lineWidthScale: model.gameSettings.lineWidthScale,
+    },
+  })}`
+
+  const dailyResults = model.dailyKey
+    ? finishDailyAttempt(model.dailyResults, model.dailyKey, {
+        gameStart: model.gameStart,
+        gameLength,
+        score,
+      })
+    : model.dailyResults
+
+  // A party's rounds belong to different people, so they stay out of the
+  // device's history
+  const history = model.party
+    ? model.history
+    : saveGameRecord(model.history, {
+        id: model.gameStart,
+        score: scoreValue,
+        seconds,
+        pixelsFilled,
+        pixelsOverfilled,
+        pixelsUnderFilled,
+        thumbnailUrl,
+        seed: model.seed,
+        shapeFamily: model.dailyKey ? 'classic' : model.shapeFamily,
+        minPoints:
+          model.gameSettings.minPoints === defaultSettings.minPoints
+            ? undefined
+            : model.gameSettings.minPoints,
+        dailyKey: model.dailyKey,
+        timeLimit: model.gameTimeLimit,
+        mode: model.gameMode === 'fill' ? undefined : model.gameMode,
+        vision: model.gameVision === 'normal' ? undefined : model.gameVision,
+        reveal: isDefaultReveal(model.gameReveal)
+          ? undefined
+          : model.gameReveal,
+        peeks: model.peeks || undefined,
+        custom: isStandardSettings(model.gameSettings) ? undefined : true,
+      })
+
+  const newModel: Model = {
+    ...model,
+    page: 'game-over',
+    dailyResults,
+    history,
+    score,
+    finalUrl,
+    heatmapUrl,
+    heatmapOpen: false,
+    metrics,
+    tracing,
+    colorResult,
+    challengeWon:
+      model.gameChallenge &&
+      isChallengeBeaten(model.gameChallenge, scoreValue, gameLength),
+    challengeUrl,
+    sharedTo: undefined,
+    peekStart: undefined,
+    party:
+      model.party &&
+      addPartyResult(model.party, {
+        score: scoreValue,
+        gameLength,
+        finalUrl,
+      }),
+    gameLength,
+    pixelsFilled,
+    pixelsOverfilled,
+    pixelsUnderFilled,
+    resultCard: undefined,
+  }
 
-function nearBy(a: Point, b: Point, range: number) {
-  const distX = Math.abs(b.x - a.x)
-  const distY = Math.abs(b.y - a.y)
-  return distY < range && distX < range
+  return [
+    newModel,
+    (dispatch) => {
+      const ready = (card: Blob) =>
+        dispatch({
+          type: 'result_card_ready',
+          gameStart: model.gameStart,
+          card,
+        })
+      // Without a card the final drawing is shared on its own
+      canvasToBlob(renderModelCard(newModel))
+        .then(ready)
+        .catch(() => ready(dataUrlToBlob(finalUrl)))
+    },
+  ]
 }
 
-// Gleaned from https://stackoverflow.com/a/24392281
-function intersects(
-  a: number,
-  b: number,
-  c: number,
-  d: number,
-  p: number,
-  q: number,
-  r: number,
-  s: number
-) {
-  var det, gamma, lambda
-  det = (c - a) * (s - q) - (r - p) * (d - b)
-  if (det === 0) {
-    return false
-  } else {
-    lambda = ((s - q) * (r - a) + (p - r) * (s - b)) / det
-    gamma = ((b - d) * (r - a) + (c - a) * (s - b)) / det
-    return 0 < lambda && lambda < 1 && 0 < gamma && gamma < 1
+function getShapeDrawAreaSize(canvasViewSize: Size): Size {
+  return {
+    width: canvasViewSize.width,
+    // We always leave room for the final image attribution
+    // so the text doesn't overlap with the shape.
+    height: canvasViewSize.height - 60,
   }
 }
 
-const randomBetween = (min: number, max: number) =>
-  min + Math.floor(Math.random() * (max - min + 1))
+// Multiples of the target's line width
+const brushSizes = [1, 2, 4, 8]
+const brushSizeLabels = ['S', 'M', 'L', 'XL']
+const defaultBrushSize = 2
 
-function makeRandomColor() {
-  const r = randomBetween(0, 255)
-  const g = randomBetween(0, 255)
-  const b = randomBetween(0, 255)
-  return `rgb(${r},${g},${b})`
-}
+function getShortcutMsg(e: KeyboardEvent): Msg | undefined {
+  const key = e.key.toLowerCase()
+  if (e.metaKey || e.ctrlKey) {
+    if (key === 'z') {
+      return { type: e.shiftKey ? 'redo' : 'undo' }
+    }
 
-function getLineWidthForCanvasSize(canvasViewSize: Size): number {
-  const min = Math.min(canvasViewSize.width, canvasViewSize.height)
-  if (min > 1000) {
-    return 20
-  }
+    if (key === 'y') {
+      return { type: 'redo' }
+    }
 
-  if (min > 500) {
-    return 15
+    return undefined
   }
 
-  return 10
+  switch (key) {
+    case 'b':
+      return { type: 'set_tool', tool: 'brush' }
+    case 'e':
+      return { type: 'set_tool', tool: 'eraser' }
+    case 'f':
+      return { type: 'set_tool', tool: 'fill' }
+    case '[':
+      return { type: 'step_brush_size', step: -1 }
+    case ']':
+      return { type: 'step_brush_size', step: 1 }
+  }
 }
 
-function drawShapeToCanvas(
-  ctx: CanvasRenderingContext2D,
-  canvasViewSize: Size,
-  shape: Shape,
-  color: string,
-  fill: boolean,
-  clear: boolean
+// Same labels as the rows of the score explainer
+const heatmapLegend = [
+  [PixelClass.Filled, 'Pixels colored inside the lines'],
+  [PixelClass.Overfilled, 'Pixels colored outside the lines'],
+  [PixelClass.UnderFilled, 'Pixels missed colored'],
+] as const
+
+function viewHeatmapSwatch(
+  pixelClass: Parameters<typeof getHeatmapCssColor>[0]
 ) {
-  if (clear) {
-    ctx.clearRect(0, 0, canvasViewSize.width, canvasViewSize.height)
-  }
-  const [start, ...rest] = shape.points
-  const points = [start, ...rest, start]
-
-  ctx.lineWidth = getLineWidthForCanvasSize(canvasViewSize)
-  ctx.lineCap = 'round'
-  ctx.strokeStyle = color
-  ctx.fillStyle = color
-
-  ctx.beginPath()
-  ctx.moveTo(start.x, start.y)
-  for (let i = 0; i < points.length; i++) {
-    const nextPoint = points[i + 1] || start
-
-    var xc = (points[i].x + nextPoint.x) / 2
-    var yc = (points[i].y + nextPoint.y) / 2
-    ctx.quadraticCurveTo(points[i].x, points[i].y, xc, yc)
-  }
-  ctx.stroke()
-  if (fill) {
-    ctx.fill()
-  }
+  return (
+    <span
+      className="heatmap-swatch"
+      style={{ backgroundColor: getHeatmapCssColor(pixelClass) }}
+    />
+  )
 }
 
-function drawPoints(ctx: CanvasRenderingContext2D, points: Point[]) {
-  ctx.fillStyle = '#aaa'
-  ctx.strokeStyle = '#aaa'
-  ctx.lineJoin = 'round'
-  ctx.lineCap = 'round'
-
-  if (points.length < 3) {
-    var b = points[0]
-    ctx.beginPath()
-    ctx.arc(b.x, b.y, ctx.lineWidth / 2, 0, Math.PI * 2, !0)
-    ctx.closePath()
-    ctx.fill()
-    return
-  }
+function viewSettings(settings: Settings, dispatch: Dispatch<Msg>) {
+  return (
+    <div className="stats-page">
+      <h3>Settings</h3>
+      <p>
+        {isStandardSettings(settings)
+          ? 'Playing by the standard rules.'
+          : 'Playing by custom rules, results are labelled as such. The daily always uses the standard rules.'}
+      </p>
+      <table className="stats settings">
+        <tbody>
+          {numberSettings.map((setting) => (
+            <tr key={setting.id}>
+              <th>
+                <label htmlFor={`setting-${setting.id}`}>{setting.label}</label>
+                <small>{setting.description}</small>
+              </th>
+              <td>
+                <input
+                  id={`setting-${setting.id}`}
+                  type="range"
+                  min={setting.min}
+                  max={setting.max}
+                  step={setting.step}
+                  value={settings[setting.id]}
+                  onChange={(e) =>
+                    dispatch({
+                      type: 'set_setting',
+                      id: setting.id,
+                      value: Number(e.target.value),
+                    })
+                  }
+                />{' '}
+                {setting.format(settings[setting.id])}
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <th>
+              <label htmlFor="setting-ink-color">Ink color</label>
+              <small>The color of your drawing</small>
+            </th>
+            <td>
+              <input
+                id="setting-ink-color"
+                type="color"
+                value={settings.inkColor}
+                onChange={(e) =>
+                  dispatch({ type: 'set_ink_color', color: e.target.value })
+                }
+              />
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function viewPartyResults(party: Party) {
+  const ranking = getPartyRanking(party)
+  return (
+    <div className="stats-page">
+      <h3>Player {ranking[0].player} wins!</h3>
+      <table className="stats">
+        <thead>
+          <tr>
+            <th>Rank</th>
+            <td>Player</td>
+            <td>Score</td>
+            <td>Seconds</td>
+          </tr>
+        </thead>
+        <tbody>
+          {ranking.map((result, i) => (
+            <tr key={result.player}>
+              <th>{i + 1}</th>
+              <td>Player {result.player}</td>
+              <td>{formatScore(result.score)}</td>
+              <td>{Math.floor(result.gameLength / 1000)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <ul className="history party-results">
+        {ranking.map((result, i) => (
+          <li key={result.player}>
+            <img
+              alt={`Player ${result.player}'s drawing`}
+              src={result.finalUrl}
+            />
+            <span>
+              <b>
+                {i + 1}. Player {result.player}
+              </b>
+              <br />
+              {formatScore(result.score)} in{' '}
+              {Math.floor(result.gameLength / 1000)}s
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
 
-  ctx.beginPath()
-  ctx.moveTo(points[0].x, points[0].y)
+function viewTracingExplainer(tracing: TracingResult) {
+  return (
+    <>
+      <p>
+        The "Traced" percentage balances <b>how much of the outline</b> you
+        traced against <b>how much of your ink</b> stayed close to it, so
+        neither scribbling everywhere nor tracing a small part scores well.
+      </p>
+      <table className="stats">
+        <tbody>
+          <tr>
+            <th>Outline covered</th>
+            <td>{formatScore(tracing.coverage)}</td>
+          </tr>
+          <tr>
+            <th>Ink near the outline</th>
+            <td>{formatScore(tracing.precision)}</td>
+          </tr>
+          <tr>
+            <th>Average distance from the outline</th>
+            <td>
+              {Number.isFinite(tracing.meanDistance)
+                ? `${tracing.meanDistance.toFixed(1)}px`
+                : '–'}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </>
+  )
+}
+
+function viewColorExplainer(colorResult: ColorResult) {
+  return (
+    <>
+      <p>
+        Your score is the drawing's score times <b>how close your color</b> was.
+        Colors are compared by their distance in CIELAB, where about 2.3 is just
+        noticeable and 50 or more scores nothing.
+      </p>
+      <table className="stats">
+        <tbody>
+          <tr>
+            <th>
+              <span
+                className="heatmap-swatch"
+                style={{ backgroundColor: colorResult.target }}
+              />
+              Shown color
+            </th>
+            <td>{colorResult.target}</td>
+          </tr>
+          <tr>
+            <th>
+              <span
+                className="heatmap-swatch"
+                style={{ backgroundColor: colorResult.guess }}
+              />
+              Your color
+            </th>
+            <td>{colorResult.guess}</td>
+          </tr>
+          <tr>
+            <th>Difference (ΔE)</th>
+            <td>{colorResult.deltaE.toFixed(1)}</td>
+          </tr>
+          <tr>
+            <th>Color score</th>
+            <td>{formatScore(colorResult.score)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </>
+  )
+}
+
+const reducedMotionQuery = '(prefers-reduced-motion: reduce)'
 
-  let i = 1
-  for (; i < points.length - 2; i++) {
-    const c = (points[i].x + points[i + 1].x) / 2
-    const d = (points[i].y + points[i + 1].y) / 2
-    ctx.quadraticCurveTo(points[i].x, points[i].y, c, d)
+function getSeedUrl(
+  seed: number,
+  shapeFamily: ShapeFamilyId,
+  minPoints: number
+): string {
+  const params = new URLSearchParams({ seed: String(seed) })
+  if (shapeFamily !== 'classic') {
+    params.set('shape', shapeFamily)
   }
+  if (minPoints !== defaultSettings.minPoints) {
+    params.set('points', String(minPoints))
+  }
+
+  return `?${params}`
+}
 
-  ctx.quadraticCurveTo(
-    points[i].x,
-    points[i].y,
-    points[i + 1].x,
-    points[i + 1].y
+function viewScoreChart(history: GameRecord[]) {
+  const width = 300
+  const height = 100
+  const scores = history.map((record) => record.score)
+  const min = Math.min(0, ...scores)
+  const max = 100
+  const x = (i: number) =>
+    scores.length > 1 ? (i / (scores.length - 1)) * width : width / 2
+  const y = (score: number) => height - ((score - min) / (max - min)) * height
+
+  return (
+    <svg
+      className="score-chart"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label="Score over time"
+    >
+      <line x1={0} x2={width} y1={y(0)} y2={y(0)} className="axis" />
+      <polyline
+        points={scores.map((score, i) => `${x(i)},${y(score)}`).join(' ')}
+      />
+    </svg>
   )
-  ctx.stroke()
 }
 
-const bufferTime = 2 * 1000
+function viewStats(history: GameRecord[], dispatch: Dispatch<Msg>) {
+  const stats = getHistoryStats(history)
+  if (!stats.best) {
+    return (
+      <div className="stats-page">
+        <h3>Stats</h3>
+        <p>Finish a game and it will show up here.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="stats-page">
+      <h3>Stats</h3>
+      <div>
+        <div className="stat">
+          <label>Games</label>
+          <b>{stats.count}</b>
+        </div>
+        <div className="stat">
+          <label>Best</label>
+          <b>{formatScore(stats.best.score)}</b>
+        </div>
+        <div className="stat">
+          <label>Average</label>
+          <b>{formatScore(stats.averageScore)}</b>
+        </div>
+        <div className="stat">
+          <label>Average seconds</label>
+          <b>{Math.round(stats.averageSeconds)}</b>
+        </div>
+      </div>
+
+      <table className="stats">
+        <thead>
+          <tr>
+            <th>Ranking</th>
+            <td>Games</td>
+            <td>Best</td>
+            <td>Average</td>
+          </tr>
+        </thead>
+        <tbody>
+          {[undefined, ...timeLimits].map((timeLimit) => {
+            const { count, best, averageScore } = getHistoryStats(
+              history.filter(
+                (record) => !record.mode && record.timeLimit === timeLimit
+              )
+            )
+            return (
+              <tr key={timeLimit || 'untimed'}>
+                <th>{timeLimit ? `${timeLimit} seconds` : 'Untimed'}</th>
+                <td>{count}</td>
+                <td>{best ? formatScore(best.score) : '–'}</td>
+                <td>{count ? formatScore(averageScore) : '–'}</td>
+              </tr>
+            )
+          })}
+          {gameModes
+            .filter((mode) => mode.id !== 'fill')
+            .map((mode) => {
+              // Other modes score differently, so they rank on their own
+              const { count, best, averageScore } = getHistoryStats(
+                history.filter((record) => record.mode === mode.id)
+              )
+              return (
+                <tr key={mode.id}>
+                  <th>{mode.label}</th>
+                  <td>{count}</td>
+                  <td>{best ? formatScore(best.score) : '–'}</td>
+                  <td>{count ? formatScore(averageScore) : '–'}</td>
+                </tr>
+              )
+            })}
+        </tbody>
+      </table>
+
+      {viewScoreChart(history)}
+
+      <ul className="history">
+        {history
+          .slice()
+          .reverse()
+          .map((record) => (
+            <li key={record.id}>
+              <button
+                onClick={() =>
+                  dispatch({ type: 'open_history_record', id: record.id })
+                }
+              >
+                <img alt="" src={record.thumbnailUrl} />
+                <span>
+                  <b>{formatScore(record.score)}</b> in {record.seconds}s
+                  <br />
+                  {new Date(record.id).toLocaleDateString()}
+                  {record.dailyKey && ', daily'}
+                  {record.timeLimit && `, ${record.timeLimit}s timed`}
+                  {record.mode && `, ${getGameMode(record.mode).label}`}
+                  {record.vision && `, ${getVision(record.vision).label}`}
+                  {record.reveal &&
+                    `, ${getRevealStyle(record.reveal.style).label} ${
+                      record.reveal.time / 1000
+                    }s`}
+                  {record.custom && ', custom rules'}
+                  {record.peeks &&
+                    `, ${record.peeks} peek${record.peeks === 1 ? '' : 's'}`}
+                </span>
+              </button>
+            </li>
+          ))}
+      </ul>
+    </div>
+  )
+}
 
 export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
   init: [
@@ -333,28 +1270,207 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
       offscreenCanvasElement: document.createElement('canvas'),
       foregroundCtx: undefined,
       backgroundCtx: undefined,
+      seed: 0,
+      requestedSeed: getSeedFromLocation(window.location),
+      requestedMinPoints: getMinPointsFromLocation(window.location),
+      shapeFamily: getShapeFamilyFromLocation(window.location),
+      timeLimit: undefined,
+      mode: 'fill',
+      gameMode: 'fill',
+      targetColor: undefined,
+      colorGuess: '#808080',
+      vision: 'normal',
+      gameVision: 'normal',
+      playerCount: 1,
+      party: undefined,
+      gameBackground: undefined,
+      gameTimeLimit: undefined,
+      revealStyle: defaultReveal.style,
+      settings: loadSettings(),
+      gameSettings: defaultSettings,
+      gameReveal: defaultReveal,
+      peekStart: undefined,
+      peeks: 0,
+      challenge: getChallengeFromLocation(window.location),
+      gameChallenge: undefined,
+      challengeWon: undefined,
+      challengeUrl: undefined,
+      challengeLinkCopied: false,
+      sharedTo: undefined,
+      resultCard: undefined,
+      dailyKey: undefined,
+      dailyResults: loadDailyResults(),
       gameStart: 0,
       gameLength: 0,
+      gameArea: { width: 0, height: 0 },
+      gamePixelRatio: 1,
       pixelsFilled: 0,
       pixelsOverfilled: 0,
       pixelsUnderFilled: 0,
       finalUrl: undefined,
+      heatmapUrl: undefined,
+      heatmapOpen: false,
+      metrics: undefined,
+      tracing: undefined,
+      colorResult: undefined,
+      headlineMetric: loadHeadlineMetric(),
+      strokes: [],
+      redoStrokes: [],
+      tool: 'brush',
+      brushSize: defaultBrushSize,
       drawPointBuffer: [],
+      activePointerId: undefined,
+      penUsed: false,
       lastDrawnAt: 0,
+      replay: undefined,
+      exportingGif: false,
+      history: loadHistory(),
+      openHistoryRecordId: undefined,
       scoreExplainerOpen: false,
+      reducedMotion: window.matchMedia(reducedMotionQuery).matches,
       score: undefined,
     },
   ],
   update(msg, model) {
     switch (msg.type) {
       case 'start_game': {
+        const dailyKey = msg.daily ? getDailyKey(new Date()) : undefined
+        // Later turns of a party draw the first turn's shape
+        const partyTurn =
+          model.page === 'game-over' && model.party && !isPartyOver(model.party)
+            ? model.party
+            : undefined
+        const seed = dailyKey
+          ? getDailySeed(dailyKey)
+          : partyTurn
+          ? partyTurn.seed
+          : msg.seed ?? makeSeed()
+        // A requested seed makes the shape of the link it came from
+        const minPoints =
+          msg.seed === undefined
+            ? model.settings.minPoints
+            : model.requestedMinPoints
+        // A challenge from a link is played from home, by every player of
+        // a party
+        const challenge = dailyKey
+          ? undefined
+          : partyTurn
+          ? model.gameChallenge
+          : model.page === 'home'
+          ? model.challenge
+          : undefined
+        const gameMode = dailyKey
+          ? 'fill'
+          : challenge
+          ? challenge.mode
+          : model.mode
+        const gameVision = dailyKey
+          ? 'normal'
+          : challenge
+          ? challenge.rules.vision
+          : model.vision
+        // Colors come from their own generators so the seed still picks
+        // the same shape
+        const visionColors =
+          gameVision === 'normal'
+            ? undefined
+            : pickVisionColors(
+                getVision(gameVision),
+                makeSeededRandom(seed + 2)
+              )
+        const targetColor =
+          gameMode === 'color'
+            ? visionColors
+              ? visionColors.shape
+              : makeRandomHexColor(makeSeededRandom(seed + 1))
+            : undefined
+        const shape = dailyKey
+          ? fitShapeToArea(
+              makeRandomShape(dailyShapeAreaSize, makeSeededRandom(seed)),
+              dailyShapeAreaSize,
+              model.shapeDrawAreaSize
+            )
+          : partyTurn
+          ? fitShapeToArea(
+              partyTurn.shape,
+              partyTurn.shapeArea,
+              model.shapeDrawAreaSize
+            )
+          : challenge
+          ? fitShapeToArea(
+              challenge.shape,
+              challenge.area,
+              model.shapeDrawAreaSize
+            )
+          : makeRandomShape(
+              model.shapeDrawAreaSize,
+              makeSeededRandom(seed),
+              model.shapeFamily,
+              minPoints
+            )
+        const party =
+          partyTurn ||
+          (!dailyKey && model.playerCount > 1
+            ? makeParty(model.playerCount, seed, shape, model.shapeDrawAreaSize)
+            : undefined)
+
+        const gameStart = Date.now()
         const newModel: Model = {
           ...model,
           page: 'game',
-          gameStart: Date.now(),
-          homeColor: '#000',
-          shape: makeRandomShape(model.shapeDrawAreaSize),
+          seed,
+          dailyKey,
+          party,
+          // The daily challenge is always untimed so results compare
+          gameTimeLimit: dailyKey
+            ? undefined
+            : challenge
+            ? challenge.rules.timeLimit
+            : model.timeLimit,
+          // The daily is played by the standard rules so results compare,
+          // and a challenge by the rules of the round that set it
+          gameReveal: dailyKey
+            ? defaultReveal
+            : challenge
+            ? challenge.rules.reveal
+            : { style: model.revealStyle, time: model.settings.revealTime },
+          gameSettings: dailyKey
+            ? defaultSettings
+            : challenge
+            ? {
+                ...defaultSettings,
+                inkColor: model.settings.inkColor,
+                revealTime: challenge.rules.reveal.time,
+                penaltyFactor: challenge.rules.penaltyFactor,
+                lineWidthScale: challenge.rules.lineWidthScale,
+              }
+            : { ...model.settings, minPoints },
+          peekStart: undefined,
+          peeks: 0,
+          gameMode,
+          gameChallenge: challenge,
+          challengeLinkCopied: false,
+          targetColor,
+          colorGuess: '#808080',
+          gameVision,
+          gameBackground: visionColors?.background,
+          gameStart,
+          dailyResults: dailyKey
+            ? startDailyAttempt(model.dailyResults, dailyKey, gameStart)
+            : model.dailyResults,
+          gameArea: model.canvasViewSize,
+          gamePixelRatio: window.devicePixelRatio,
+          homeColor: targetColor || visionColors?.shape || '#000',
+          shape,
+          strokes: [],
+          redoStrokes: [],
+          tool: 'brush',
+          drawPointBuffer: [],
+          activePointerId: undefined,
+          penUsed: false,
+          replay: undefined,
           finalUrl: undefined,
+          heatmapUrl: undefined,
         }
 
         return [
@@ -373,207 +1489,316 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
             drawShapeToCanvas(
               newModel.foregroundCtx!,
               newModel.canvasViewSize!,
+              newModel.gamePixelRatio,
               newModel.shape,
               newModel.homeColor,
               false,
-              true
+              true,
+              newModel.gameSettings.lineWidthScale
             )
           },
         ]
       }
       case 'end_game': {
-        const gameLength = Date.now() - model.gameStart
-
-        const {
-          offscreenCanvasElement,
-          backgroundCanvasElement,
-          backgroundCtx,
-          foregroundCanvasElement,
-        } = model
-        offscreenCanvasElement.width = backgroundCanvasElement!.width
-        offscreenCanvasElement.height = backgroundCanvasElement!.height
-
-        const offscreenCtx = offscreenCanvasElement.getContext('2d')!
-        offscreenCtx.clearRect(
-          0,
-          0,
-          model.canvasViewSize.width,
-          model.canvasViewSize.height
-        )
-        offscreenCtx.drawImage(
-          backgroundCanvasElement!,
-          0,
-          0,
-          model.canvasViewSize.width,
-          model.canvasViewSize.height,
-          0,
-          0,
-          model.canvasViewSize.width,
-          model.canvasViewSize.height
-        )
-        drawShapeToCanvas(
-          offscreenCtx,
-          model.canvasViewSize,
-          model.shape,
-          '#000',
-          true,
-          false
-        )
-
-        const pixels = offscreenCtx.getImageData(
-          0,
-          0,
-          model.canvasViewSize.width,
-          model.canvasViewSize.height
-        ).data
-
-        const gray = 170
-        let pixelsOverfilled = 0
-        for (let i = 0; i < pixels.length; i += 4) {
-          if (pixels[i] === gray) {
-            pixelsOverfilled++
-          }
+        if (model.page !== 'game') {
+          return [model]
         }
 
-        offscreenCtx.clearRect(
-          0,
-          0,
-          model.canvasViewSize.width,
-          model.canvasViewSize.height
-        )
-
-        drawShapeToCanvas(
-          offscreenCtx,
-          model.canvasViewSize,
-          model.shape,
-          '#fff',
-          true,
-          false
-        )
-
-        const drawData = backgroundCtx!.getImageData(
-          0,
-          0,
-          model.canvasViewSize.width,
-          model.canvasViewSize.height
-        ).data
-
-        const fillData = offscreenCtx.getImageData(
-          0,
-          0,
-          model.canvasViewSize.width,
-          model.canvasViewSize.height
-        ).data
-
-        let pixelsFilled = 0
-        let pixelsUnderFilled = 0
-        for (let i = 0; i < fillData.length; i += 4) {
-          if (fillData[i] !== 255) {
-            continue
-          }
-
-          if (drawData[i] === gray) {
-            pixelsFilled++
-          } else {
-            pixelsUnderFilled++
-          }
+        const gameLength = Date.now() - model.gameStart
+        if (model.gameMode === 'color') {
+          // The time spent picking the color doesn't count
+          return [{ ...model, page: 'color-pick', gameLength }]
         }
 
-        offscreenCtx.fillStyle = '#fff'
-        offscreenCtx.fillRect(
-          0,
-          0,
-          model.canvasViewSize.width,
-          model.canvasViewSize.height
-        )
+        return finishGame(model, gameLength)
+      }
+      case 'set_color_guess': {
+        return [{ ...model, colorGuess: msg.color }]
+      }
+      case 'submit_color_guess': {
+        if (model.page !== 'color-pick') {
+          return [model]
+        }
 
-        offscreenCtx.drawImage(
-          backgroundCanvasElement!,
-          0,
-          0,
-          model.canvasViewSize.width,
-          model.canvasViewSize.height,
-          0,
-          0,
-          model.canvasViewSize.width,
-          model.canvasViewSize.height
-        )
-        offscreenCtx.drawImage(
-          foregroundCanvasElement!,
-          0,
-          0,
-          model.canvasViewSize.width,
-          model.canvasViewSize.height,
-          0,
-          0,
-          model.canvasViewSize.width,
-          model.canvasViewSize.height
-        )
+        return finishGame(model, model.gameLength)
+      }
+      case 'set_headline_metric': {
+        return [
+          { ...model, headlineMetric: msg.metric },
+          () => saveHeadlineMetric(msg.metric),
+        ]
+      }
+      case 'set_reduced_motion': {
+        return [{ ...model, reducedMotion: msg.reducedMotion }]
+      }
+      case 'toggle_heatmap': {
+        return [{ ...model, heatmapOpen: !model.heatmapOpen }]
+      }
+      case 'set_shape_family': {
+        return [{ ...model, shapeFamily: msg.shapeFamily }]
+      }
+      case 'set_time_limit': {
+        return [{ ...model, timeLimit: msg.timeLimit }]
+      }
+      case 'set_reveal_style': {
+        return [{ ...model, revealStyle: msg.style }]
+      }
+      case 'open_settings': {
+        if (model.page !== 'home') {
+          return [model]
+        }
 
-        const penaltyFactor = 5
-        const score = `${(
-          (100 * pixelsFilled - penaltyFactor * pixelsOverfilled) /
-          (pixelsFilled + pixelsUnderFilled)
-        ).toFixed(2)}%`
-        const seconds = Math.floor(gameLength / 1000)
-
-        // draw game name and score on image
-        {
-          const nameText = 'Color Blind'
-          const scoreText = `Colored ${score} in ${seconds} seconds`
-
-          offscreenCtx.fillStyle = '#000'
-          offscreenCtx.font =
-            "bold 24px -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen', 'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif"
-          const nameSize = offscreenCtx.measureText(nameText)
-          const padding = 10 * window.devicePixelRatio
-          offscreenCtx.fillText(
-            nameText,
-            padding,
-            model.canvasViewSize.height -
-              padding -
-              nameSize.fontBoundingBoxDescent * window.devicePixelRatio
-          )
+        return [{ ...model, page: 'settings' }]
+      }
+      case 'close_settings': {
+        return [{ ...model, page: 'home' }]
+      }
+      case 'set_setting': {
+        const setting = numberSettings.find(({ id }) => id === msg.id)!
+        const settings = {
+          ...model.settings,
+          [msg.id]: clampSetting(setting, msg.value),
+        }
+        return [{ ...model, settings }, () => saveSettings(settings)]
+      }
+      case 'set_ink_color': {
+        const settings = { ...model.settings, inkColor: msg.color }
+        return [{ ...model, settings }, () => saveSettings(settings)]
+      }
+      case 'reset_settings': {
+        return [
+          { ...model, settings: defaultSettings },
+          () => saveSettings(defaultSettings),
+        ]
+      }
+      case 'peek_start': {
+        const now = Date.now()
+        // Peeking only starts once the shape has gone away, and a held
+        // key repeating doesn't start another one
+        if (
+          model.page !== 'game' ||
+          model.gameReveal.style !== 'peek' ||
+          now - model.gameStart < model.gameReveal.time ||
+          model.peekStart !== undefined
+        ) {
+          return [model]
+        }
 
-          const scoreSize = offscreenCtx.measureText(scoreText)
-          offscreenCtx.fillText(
-            scoreText,
-            model.canvasViewSize.width - padding - scoreSize.width,
-            model.canvasViewSize.height -
-              padding -
-              scoreSize.fontBoundingBoxDescent * window.devicePixelRatio
-          )
+        return [{ ...model, peekStart: now, peeks: model.peeks + 1 }]
+      }
+      case 'peek_end': {
+        return [{ ...model, peekStart: undefined }]
+      }
+      case 'set_mode': {
+        return [{ ...model, mode: msg.mode }]
+      }
+      case 'set_vision': {
+        return [{ ...model, vision: msg.vision }]
+      }
+      case 'set_player_count': {
+        return [{ ...model, playerCount: msg.playerCount }]
+      }
+      case 'open_party_results': {
+        if (model.page !== 'game-over' || !model.party) {
+          return [model]
         }
 
-        const finalUrl = offscreenCanvasElement.toDataURL()
+        return [
+          {
+            ...model,
+            page: 'party-results',
+            replay: undefined,
+            scoreExplainerOpen: false,
+          },
+        ]
+      }
+      case 'close_party_results': {
+        return [{ ...model, page: 'home', party: undefined }]
+      }
+      case 'open_stats': {
+        if (model.page === 'game' || model.page === 'color-pick') {
+          return [model]
+        }
 
         return [
           {
             ...model,
-            page: 'game-over',
-            score,
-            finalUrl,
-            gameLength,
-            pixelsFilled,
-            pixelsOverfilled,
-            pixelsUnderFilled,
+            page: 'stats',
+            replay: undefined,
+            scoreExplainerOpen: false,
           },
         ]
       }
+      case 'close_stats': {
+        return [{ ...model, page: 'home', openHistoryRecordId: undefined }]
+      }
+      case 'open_history_record': {
+        return [{ ...model, openHistoryRecordId: msg.id }]
+      }
+      case 'dismiss_history_record': {
+        return [{ ...model, openHistoryRecordId: undefined }, restoreFocus]
+      }
       case 'open_score_explainer': {
         return [{ ...model, scoreExplainerOpen: model.page === 'game-over' }]
       }
       case 'dismiss_score_explainer': {
-        return [{ ...model, scoreExplainerOpen: false }]
+        return [{ ...model, scoreExplainerOpen: false }, restoreFocus]
       }
-      case 'window_resize': {
-        if (model.page === 'game') {
-          // Changing the size of the canvas causes it to be cleared.
-          // We don't want to lose the drawing while in the game due to that.
-          // So for lack of a workaround we just skip resizing during the game.
+      case 'open_replay': {
+        if (model.page !== 'game-over' || !model.strokes.length) {
+          return [model]
+        }
+
+        const newModel: Model = {
+          ...model,
+          scoreExplainerOpen: false,
+          replay: { time: 0, speed: 1, playing: true, lastTickAt: Date.now() },
+        }
+
+        return [newModel, () => redrawStrokes(newModel)]
+      }
+      case 'toggle_replay': {
+        const { replay } = model
+        if (!replay) {
           return [model]
         }
 
+        const finished = replay.time >= getReplayLength(model.strokes)
+        return [
+          {
+            ...model,
+            replay: {
+              ...replay,
+              playing: !replay.playing,
+              time: !replay.playing && finished ? 0 : replay.time,
+              lastTickAt: Date.now(),
+            },
+          },
+        ]
+      }
+      case 'set_replay_speed': {
+        const { replay } = model
+        if (!replay) {
+          return [model]
+        }
+
+        return [{ ...model, replay: { ...replay, speed: msg.speed } }]
+      }
+      case 'replay_tick': {
+        const { replay } = model
+        if (!replay || !replay.playing) {
+          return [model]
+        }
+
+        const now = Date.now()
+        const replayLength = getReplayLength(model.strokes)
+        const time = Math.min(
+          replayLength,
+          replay.time + (now - replay.lastTickAt) * replay.speed
+        )
+
+        const newModel: Model = {
+          ...model,
+          replay: {
+            ...replay,
+            time,
+            lastTickAt: now,
+            playing: time < replayLength,
+          },
+        }
+
+        return [newModel, () => redrawStrokes(newModel)]
+      }
+      case 'close_replay': {
+        const newModel: Model = { ...model, replay: undefined }
+        return [newModel, () => redrawStrokes(newModel)]
+      }
+      case 'export_gif': {
+        if (model.page !== 'game-over' || model.exportingGif) {
+          return [model]
+        }
+
+        const round = getRound(model)
+        return [
+          { ...model, exportingGif: true },
+          (dispatch) => {
+            // Let the "Encoding" state render before blocking on the encoder
+            setTimeout(() => {
+              // The button comes back even if encoding fails
+              try {
+                downloadBlob(renderRoundGif(round), 'color-blind.gif')
+              } finally {
+                dispatch({ type: 'gif_exported' })
+              }
+            }, 50)
+          },
+        ]
+      }
+      case 'gif_exported': {
+        return [{ ...model, exportingGif: false }]
+      }
+      case 'export_svg': {
+        if (model.page !== 'game-over') {
+          return [model]
+        }
+
+        const round = getRound(model)
+        return [
+          model,
+          () => downloadBlob(renderRoundSvg(round), 'color-blind.svg'),
+        ]
+      }
+      case 'result_card_ready': {
+        if (model.page !== 'game-over' || model.gameStart !== msg.gameStart) {
+          return [model]
+        }
+
+        return [{ ...model, resultCard: msg.card }]
+      }
+      case 'share_result': {
+        const { resultCard } = model
+        if (model.page !== 'game-over' || !resultCard) {
+          return [model]
+        }
+
+        const round = getRound(model)
+        return [
+          model,
+          (dispatch) => {
+            shareImage(resultCard, 'color-blind.png', round.caption)
+              .then((target) => dispatch({ type: 'result_shared', target }))
+              .catch(() =>
+                dispatch({ type: 'result_shared', target: undefined })
+              )
+          },
+        ]
+      }
+      case 'result_shared': {
+        return [{ ...model, sharedTo: msg.target }]
+      }
+      case 'challenge_friend': {
+        const { challengeUrl } = model
+        if (model.page !== 'game-over' || !challengeUrl) {
+          return [model]
+        }
+
+        return [
+          model,
+          (dispatch) => {
+            navigator.clipboard
+              .writeText(challengeUrl)
+              .then(() => dispatch({ type: 'challenge_link_copied' }))
+              .catch(() => {
+                // Without clipboard access the link can be copied by hand
+                window.prompt('Send this link to a friend', challengeUrl)
+              })
+          },
+        ]
+      }
+      case 'challenge_link_copied': {
+        return [{ ...model, challengeLinkCopied: true }]
+      }
+      case 'window_resize': {
         const { width, height } = msg
         const windowSize = { width, height }
 
@@ -599,16 +1824,16 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
           height: canvasSize.height * window.devicePixelRatio,
         }
 
-        const shapeDrawAreaSize = {
-          width: canvasViewSize.width,
-          // We always leave room for the final image attribution
-          // so the text doesn't overlap with the shape.
-          height: canvasViewSize.height - 60,
-        }
+        const shapeDrawAreaSize = getShapeDrawAreaSize(canvasViewSize)
 
         const shape = model.shape.points.length
           ? model.shape
-          : makeRandomShape(shapeDrawAreaSize)
+          : makeRandomShape(
+              shapeDrawAreaSize,
+              Math.random,
+              model.shapeFamily,
+              model.settings.minPoints
+            )
 
         const newModel: Model = {
           ...model,
@@ -619,7 +1844,44 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
           shapeDrawAreaSize,
         }
 
-        return [newModel]
+        return [
+          newModel,
+          () => {
+            resizeCanvases(newModel)
+            // Resizing cleared the canvas, and a still home shape isn't
+            // drawn again until the next visit
+            if (newModel.page === 'home') {
+              drawHomeShape(newModel)
+              return
+            }
+
+            if (
+              newModel.page !== 'game' &&
+              newModel.page !== 'color-pick' &&
+              newModel.page !== 'game-over'
+            ) {
+              return
+            }
+
+            const { foregroundCtx } = newModel
+            if (foregroundCtx) {
+              drawInGameArea(newModel, foregroundCtx, () =>
+                drawShapeToCanvas(
+                  foregroundCtx,
+                  newModel.gameArea,
+                  newModel.gamePixelRatio,
+                  newModel.shape,
+                  newModel.homeColor,
+                  false,
+                  false,
+                  newModel.gameSettings.lineWidthScale
+                )
+              )
+            }
+
+            redrawStrokes(newModel)
+          },
+        ]
       }
       case 'canvas_mounted': {
         const { canvasElement } = msg
@@ -641,100 +1903,189 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
             break
         }
 
+        const newModel = {
+          ...model,
+          ...updates,
+        }
+
         return [
-          {
-            ...model,
-            ...updates,
+          newModel,
+          () => {
+            resizeCanvases(newModel)
+            // The still home shape asked for at start had nowhere to go
+            if (newModel.page === 'home') {
+              drawHomeShape(newModel)
+            }
           },
         ]
       }
 
-      case 'canvas_render': {
-        const { foregroundCtx } = model
-        if (!foregroundCtx) {
+      case 'canvas_render': {
+        const { foregroundCtx } = model
+        if (!foregroundCtx) {
+          return [model]
+        }
+
+        return [model]
+      }
+
+      case 'canvas_pointer_down': {
+        if (model.page !== 'game' || model.activePointerId !== undefined) {
+          return [model]
+        }
+
+        // A pen in use means touches are the hand resting on the screen,
+        // as are touches with a contact area much larger than a fingertip
+        if (
+          msg.pointerType === 'touch' &&
+          (model.penUsed || msg.contactSize > palmContactSize)
+        ) {
+          return [model]
+        }
+
+        const newModel: Model = {
+          ...model,
+          activePointerId: msg.pointerId,
+          penUsed: model.penUsed || msg.pointerType === 'pen',
+          drawPointBuffer: [],
+        }
+
+        const point = getStrokePoint(model, msg.input)
+        if (model.tool === 'fill') {
+          // Filling is a single tap, so there's nothing to follow after it
+          return fillAt({ ...newModel, activePointerId: undefined }, point)
+        }
+
+        return addDrawPoints(newModel, [point])
+      }
+
+      case 'canvas_draw': {
+        if (msg.pointerId !== model.activePointerId) {
+          return [model]
+        }
+
+        return addDrawPoints(
+          model,
+          msg.inputs.map((input) => getStrokePoint(model, input))
+        )
+      }
+
+      case 'canvas_draw_end': {
+        if (msg.pointerId !== model.activePointerId) {
+          return [model]
+        }
+
+        const { drawPointBuffer, backgroundCtx, strokes } = model
+        const newModel: Model = {
+          ...model,
+          activePointerId: undefined,
+          drawPointBuffer: [],
+        }
+        if (!drawPointBuffer.length || !backgroundCtx) {
+          return [newModel]
+        }
+
+        const stroke = strokes[strokes.length - 1]
+        return [
+          newModel,
+          () =>
+            drawInGameArea(model, backgroundCtx, () =>
+              drawStroke(
+                backgroundCtx,
+                model.gameArea,
+                model.gamePixelRatio,
+                stroke,
+                drawPointBuffer,
+                model.gameSettings
+              )
+            ),
+        ]
+      }
+
+      case 'set_tool': {
+        // Filling in would defeat the point of tracing
+        if (msg.tool === 'fill' && model.gameMode === 'trace') {
           return [model]
         }
 
-        return [model]
+        return [{ ...model, tool: msg.tool }]
       }
 
-      case 'canvas_draw': {
-        const rect = model.backgroundCanvasElement!.getBoundingClientRect()
-        const x = (msg.windowX - rect.left) * window.devicePixelRatio
-        const y = (msg.windowY - rect.top) * window.devicePixelRatio
-        const newPoint = { x, y }
-
-        const { drawPointBuffer } = model
-        if (drawPointBuffer.length < 5) {
-          drawPointBuffer.push(newPoint)
+      case 'set_brush_size': {
+        return [{ ...model, brushSize: msg.brushSize }]
+      }
+
+      case 'step_brush_size': {
+        const index = brushSizes.indexOf(model.brushSize) + msg.step
+        if (index < 0 || index >= brushSizes.length) {
           return [model]
         }
 
-        const { backgroundCtx } = model
-        if (!backgroundCtx) {
+        return [{ ...model, brushSize: brushSizes[index] }]
+      }
+
+      case 'undo': {
+        const { strokes } = model
+        if (model.page !== 'game' || !strokes.length) {
           return [model]
         }
 
-        return [
-          { ...model, drawPointBuffer: [newPoint] },
-          () => {
-            backgroundCtx.lineWidth =
-              2 * getLineWidthForCanvasSize(model.canvasViewSize)
+        const newModel: Model = {
+          ...model,
+          strokes: strokes.slice(0, -1),
+          redoStrokes: [...model.redoStrokes, strokes[strokes.length - 1]],
+          drawPointBuffer: [],
+        }
 
-            drawPoints(backgroundCtx, drawPointBuffer.concat(newPoint))
-          },
-        ]
+        return [newModel, () => redrawStrokes(newModel)]
       }
 
-      case 'canvas_draw_end': {
-        const { drawPointBuffer } = model
-        if (!drawPointBuffer.length) {
+      case 'redo': {
+        const { redoStrokes } = model
+        if (model.page !== 'game' || !redoStrokes.length) {
           return [model]
         }
 
-        const { backgroundCtx } = model
-        if (!backgroundCtx) {
-          return [model]
+        const newModel: Model = {
+          ...model,
+          strokes: [...model.strokes, redoStrokes[redoStrokes.length - 1]],
+          redoStrokes: redoStrokes.slice(0, -1),
+          drawPointBuffer: [],
         }
 
-        return [
-          { ...model, drawPointBuffer: [] },
-          () => {
-            backgroundCtx.lineWidth =
-              2 * getLineWidthForCanvasSize(model.canvasViewSize)
-
-            drawPoints(backgroundCtx, drawPointBuffer)
-          },
-        ]
+        return [newModel, () => redrawStrokes(newModel)]
       }
 
       case 'home_carousel_tick': {
-        const color = makeRandomColor()
+        const color = makeRandomColor(Math.random)
         const newModel = {
           ...model,
           homeColor: color,
-          shape: makeRandomShape(model.shapeDrawAreaSize),
-        }
-
-        const { foregroundCtx, canvasViewSize } = model
-        if (!foregroundCtx) {
-          return [newModel]
+          shape: makeRandomShape(
+            model.shapeDrawAreaSize,
+            Math.random,
+            model.shapeFamily,
+            model.settings.minPoints
+          ),
         }
 
-        return [
-          newModel,
-          () =>
-            drawShapeToCanvas(
-              foregroundCtx,
-              canvasViewSize,
-              model.shape,
-              model.homeColor,
-              false,
-              true
-            ),
-        ]
+        return [newModel, () => drawHomeShape(model)]
       }
       case 'game_tick': {
+        const now = Date.now()
+        if (model.page === 'game' && getTimeLeft(model, now) <= 0) {
+          return [model, (dispatch) => dispatch({ type: 'end_game' })]
+        }
+
+        // One more tick past the reveal time clears the last of the outline
+        if (
+          model.page === 'game' &&
+          model.gameReveal.style === 'erase' &&
+          now - model.gameStart < model.gameReveal.time + 200
+        ) {
+          return [model, () => drawErasingShape(model, now)]
+        }
+
         return [model]
       }
     }
@@ -762,8 +2113,19 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
           },
         }
       },
+      // Rapidly changing colors can set off photosensitivity, so with
+      // reduced motion a single shape stays up instead
+      homeStill:
+        model.page === 'home' && model.reducedMotion
+          ? () => ({
+              effect(dispatch) {
+                dispatch({ type: 'home_carousel_tick' })
+              },
+              cancel() {},
+            })
+          : undefined,
       homeCarousel:
-        model.page === 'home'
+        model.page === 'home' && !model.reducedMotion
           ? () => {
               let timerId: any
 
@@ -780,6 +2142,107 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
               }
             }
           : undefined,
+      reducedMotion: () => {
+        const query = window.matchMedia(reducedMotionQuery)
+        let _dispatch: Dispatch<Msg>
+        function onChange() {
+          _dispatch({
+            type: 'set_reduced_motion',
+            reducedMotion: query.matches,
+          })
+        }
+
+        return {
+          effect(dispatch) {
+            _dispatch = dispatch
+            query.addEventListener('change', onChange)
+          },
+          cancel() {
+            query.removeEventListener('change', onChange)
+          },
+        }
+      },
+      replayTick:
+        model.replay && model.replay.playing
+          ? () => {
+              let frameId: number
+
+              return {
+                effect(dispatch) {
+                  const tick = () => {
+                    dispatch({ type: 'replay_tick' })
+                    frameId = requestAnimationFrame(tick)
+                  }
+
+                  frameId = requestAnimationFrame(tick)
+                },
+                cancel() {
+                  cancelAnimationFrame(frameId)
+                },
+              }
+            }
+          : undefined,
+      keyboard:
+        model.page === 'game'
+          ? () => {
+              let _dispatch: Dispatch<Msg>
+              function onKeyDown(e: KeyboardEvent) {
+                const msg = getShortcutMsg(e)
+                if (msg) {
+                  e.preventDefault()
+                  _dispatch(msg)
+                }
+              }
+
+              return {
+                effect(dispatch) {
+                  _dispatch = dispatch
+                  window.addEventListener('keydown', onKeyDown)
+                },
+                cancel() {
+                  window.removeEventListener('keydown', onKeyDown)
+                },
+              }
+            }
+          : undefined,
+      peekKeys:
+        model.page === 'game' && model.gameReveal.style === 'peek'
+          ? () => {
+              let _dispatch: Dispatch<Msg>
+              function onKey(e: KeyboardEvent) {
+                // Space still works a focused control, but peeks over the
+                // game's own buttons rather than pressing them
+                const { target } = e
+                if (
+                  e.key !== ' ' ||
+                  e.defaultPrevented ||
+                  target instanceof HTMLInputElement ||
+                  target instanceof HTMLSelectElement ||
+                  (target instanceof HTMLButtonElement &&
+                    !target.closest('.tools, .nav-button'))
+                ) {
+                  return
+                }
+
+                e.preventDefault()
+                _dispatch({
+                  type: e.type === 'keydown' ? 'peek_start' : 'peek_end',
+                })
+              }
+
+              return {
+                effect(dispatch) {
+                  _dispatch = dispatch
+                  window.addEventListener('keydown', onKey)
+                  window.addEventListener('keyup', onKey)
+                },
+                cancel() {
+                  window.removeEventListener('keydown', onKey)
+                  window.removeEventListener('keyup', onKey)
+                },
+              }
+            }
+          : undefined,
       gameTick:
         model.page === 'game'
           ? () => {
@@ -803,22 +2266,67 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
   view(model, dispatch) {
     ;(window as any).$model = model
 
+    const today = new Date()
+    const todaysResult = model.dailyResults[getDailyKey(today)]
+    const dailyStreak = getDailyStreak(model.dailyResults, today)
+    // Daily and challenge shapes aren't made from the seed in this draw
+    // area, so their seed doesn't play the same shape again
+    const seedReplays = !model.dailyKey && !model.gameChallenge
+
+    const statsButton = (
+      <button
+        className="nav-button nav-button-secondary"
+        onClick={() => dispatch({ type: 'open_stats' })}
+      >
+        Stats
+      </button>
+    )
+
     let action
     switch (model.page) {
       case 'home':
         action = (
-          <button
-            className="nav-button"
-            onClick={() => dispatch({ type: 'start_game' })}
-          >
-            Start
-          </button>
+          <div className="nav-actions">
+            <button
+              className="nav-button nav-button-secondary"
+              onClick={() => dispatch({ type: 'open_settings' })}
+            >
+              Settings
+            </button>
+            {statsButton}
+            <button
+              className="nav-button nav-button-secondary"
+              title={
+                todaysResult
+                  ? `You already played today and ${
+                      todaysResult.score
+                        ? `colored ${todaysResult.score}`
+                        : 'left before finishing'
+                    }, replays won't count`
+                  : 'Everyone draws the same shape today, only the first attempt counts'
+              }
+              onClick={() => dispatch({ type: 'start_game', daily: true })}
+            >
+              Daily{todaysResult ? ' ✓' : ''}
+            </button>
+            <button
+              className="nav-button"
+              autoFocus
+              onClick={() =>
+                dispatch({ type: 'start_game', seed: model.requestedSeed })
+              }
+            >
+              Start
+            </button>
+          </div>
         )
         break
       case 'game':
         action = (
           <button
             className="nav-button"
+            // Space peeks, so it mustn't land on Finish
+            autoFocus={model.gameReveal.style !== 'peek'}
             onClick={() => dispatch({ type: 'end_game' })}
           >
             Finish
@@ -826,22 +2334,146 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
         )
         break
       case 'game-over':
+        action = (
+          <div className="nav-actions">
+            {!model.replay && statsButton}
+            {model.strokes.length > 0 && (
+              <button
+                className="nav-button nav-button-secondary"
+                onClick={() =>
+                  dispatch({
+                    type: model.replay ? 'close_replay' : 'open_replay',
+                  })
+                }
+              >
+                {model.replay ? 'Close replay' : 'Replay'}
+              </button>
+            )}
+            {model.party ? (
+              isPartyOver(model.party) ? (
+                <button
+                  className="nav-button"
+                  autoFocus
+                  onClick={() => dispatch({ type: 'open_party_results' })}
+                >
+                  Results
+                </button>
+              ) : (
+                <button
+                  className="nav-button"
+                  autoFocus
+                  onClick={() => dispatch({ type: 'start_game' })}
+                >
+                  Player {model.party.results.length + 1}'s turn
+                </button>
+              )
+            ) : (
+              <button
+                className="nav-button"
+                autoFocus
+                onClick={() => dispatch({ type: 'start_game' })}
+              >
+                Play again
+              </button>
+            )}
+          </div>
+        )
+        break
+      case 'color-pick':
+        action = (
+          <div className="nav-actions">
+            <label className="color-guess">
+              What color was the shape?
+              <input
+                type="color"
+                value={model.colorGuess}
+                onChange={(e) =>
+                  dispatch({ type: 'set_color_guess', color: e.target.value })
+                }
+              />
+            </label>
+            <button
+              className="nav-button"
+              onClick={() => dispatch({ type: 'submit_color_guess' })}
+            >
+              Done
+            </button>
+          </div>
+        )
+        break
+      case 'party-results':
+        action = (
+          <div className="nav-actions">
+            <button
+              className="nav-button nav-button-secondary"
+              onClick={() => dispatch({ type: 'close_party_results' })}
+            >
+              Done
+            </button>
+            <button
+              className="nav-button"
+              autoFocus
+              onClick={() => dispatch({ type: 'start_game' })}
+            >
+              Rematch
+            </button>
+          </div>
+        )
+        break
+      case 'settings':
+        action = (
+          <div className="nav-actions">
+            <button
+              className="nav-button nav-button-secondary"
+              disabled={isStandardSettings(model.settings)}
+              onClick={() => dispatch({ type: 'reset_settings' })}
+            >
+              Reset
+            </button>
+            <button
+              className="nav-button"
+              onClick={() => dispatch({ type: 'close_settings' })}
+            >
+              Done
+            </button>
+          </div>
+        )
+        break
+      case 'stats':
         action = (
           <button
             className="nav-button"
-            onClick={() => dispatch({ type: 'start_game' })}
+            onClick={() => dispatch({ type: 'close_stats' })}
           >
-            Play again
+            Back
           </button>
         )
         break
     }
 
+    const headline = getMetricInfo(model.headlineMetric)
+
+    // The round's colors and simulated vision apply until leaving game over
+    const inRound =
+      model.page === 'game' ||
+      model.page === 'color-pick' ||
+      model.page === 'game-over'
+
+    const openHistoryRecord = model.history.find(
+      (record) => record.id === model.openHistoryRecordId
+    )
+
     const now = Date.now()
     const timeSinceStart = now - model.gameStart
+    // The drawing stays hidden while picking a color, the shape would give
+    // the color away
     const opacity =
       model.page === 'game'
-        ? Math.max(0, (bufferTime - timeSinceStart) / bufferTime)
+        ? isPeeking(model, now)
+          ? 1
+          : getRevealOpacity(model.gameReveal, timeSinceStart)
+        : model.page === 'color-pick'
+        ? 0
         : 1
 
     const baseCanvasStyle = {
@@ -849,64 +2481,87 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
       height: model.canvasSize.height,
     }
 
-    const baseCanvasProps = {
-      width: model.canvasViewSize.width,
-      height: model.canvasViewSize.height,
-    }
-
     const foregroundCanvasProps = {
-      ...baseCanvasProps,
       style: {
         ...baseCanvasStyle,
       },
     }
 
     const backgroundCanvasProps = {
-      ...baseCanvasProps,
       style: {
         ...baseCanvasStyle,
       },
     }
 
-    const drawEnd = () => dispatch({ type: 'canvas_draw_end' })
+    const drawEnd = (e: React.PointerEvent) =>
+      dispatch({ type: 'canvas_draw_end', pointerId: e.pointerId })
 
     return (
       <div className="app">
+        <p className="visually-hidden" role="status" aria-live="polite">
+          {model.page === 'game-over' && getRound(model).caption}
+        </p>
+        <svg className="vision-filters" aria-hidden="true">
+          {visions.map((vision) => (
+            <filter key={vision.id} id={`vision-${vision.id}`}>
+              <feColorMatrix
+                type="matrix"
+                values={getColorMatrixValues(vision)}
+              />
+            </filter>
+          ))}
+        </svg>
         <div className="container">
           <div
             className="frame"
             style={{
               opacity,
-              cursor: model.page === 'game' ? 'crosshair' : undefined,
-            }}
-            onTouchMove={
-              model.page === 'game'
-                ? (e) => {
-                    dispatch({
-                      type: 'canvas_draw',
-                      windowX: e.touches[0].clientX,
-                      windowY: e.touches[0].clientY,
-                    })
-                  }
-                : undefined
-            }
-            {...{
-              onTouchEnd: drawEnd,
-              onMouseMove:
-                model.page === 'game'
-                  ? (e) => {
-                      if (e.buttons === 1) {
-                        dispatch({
-                          type: 'canvas_draw',
-                          windowX: e.clientX,
-                          windowY: e.clientY,
-                        })
-                      }
-                    }
+              backgroundColor: inRound ? model.gameBackground : undefined,
+              filter:
+                inRound && model.gameVision !== 'normal'
+                  ? `url(#vision-${model.gameVision})`
                   : undefined,
-              onMouseUp: drawEnd,
-              onMouseLeave: drawEnd,
+              // Touches draw instead of scrolling or zooming the page
+              touchAction: model.page === 'game' ? 'none' : undefined,
+              cursor:
+                model.page !== 'game'
+                  ? undefined
+                  : model.tool === 'fill'
+                  ? 'cell'
+                  : 'crosshair',
             }}
+            {...(model.page === 'game' && {
+              onPointerDown: (e: React.PointerEvent) => {
+                if (e.button !== 0) {
+                  return
+                }
+
+                // Keep receiving the stroke when it wanders off the frame
+                e.currentTarget.setPointerCapture(e.pointerId)
+                dispatch({
+                  type: 'canvas_pointer_down',
+                  pointerId: e.pointerId,
+                  pointerType: e.pointerType,
+                  contactSize: Math.max(e.width, e.height),
+                  input: getPointerInput(e.nativeEvent),
+                })
+              },
+              onPointerMove: (e: React.PointerEvent) => {
+                // Fast devices batch several positions into one event
+                const events = e.nativeEvent.getCoalescedEvents
+                  ? e.nativeEvent.getCoalescedEvents()
+                  : []
+                dispatch({
+                  type: 'canvas_draw',
+                  pointerId: e.pointerId,
+                  inputs: (events.length ? events : [e.nativeEvent]).map(
+                    getPointerInput
+                  ),
+                })
+              },
+              onPointerUp: drawEnd,
+              onPointerCancel: drawEnd,
+            })}
           >
             <canvas
               id="background"
@@ -948,21 +2603,120 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
               requires.
             </canvas>
 
-            {model.finalUrl && (
+            {model.finalUrl && !model.replay && (
               <div>
                 <img
                   alt="Your drawing, maybe save it!"
                   className="picture"
                   src={model.finalUrl}
                 />
+                {model.heatmapOpen && model.heatmapUrl && (
+                  <img
+                    alt="Where your drawing was scored inside, outside and missed"
+                    className="picture"
+                    src={model.heatmapUrl}
+                  />
+                )}
+              </div>
+            )}
+
+            {model.page === 'stats' && viewStats(model.history, dispatch)}
+
+            {model.page === 'settings' &&
+              viewSettings(model.settings, dispatch)}
+
+            {model.page === 'party-results' &&
+              model.party &&
+              viewPartyResults(model.party)}
+
+            {model.replay && (
+              <div className="replay-controls">
+                <button
+                  onClick={() => dispatch({ type: 'toggle_replay' })}
+                  aria-label={model.replay.playing ? 'Pause' : 'Play'}
+                >
+                  {model.replay.playing ? '❚❚' : '▶'}
+                </button>
+                {replaySpeeds.map((speed) => (
+                  <button
+                    key={speed}
+                    className={
+                      model.replay!.speed === speed ? 'active' : undefined
+                    }
+                    onClick={() =>
+                      dispatch({ type: 'set_replay_speed', speed })
+                    }
+                  >
+                    {speed}×
+                  </button>
+                ))}
+                <span>
+                  {(model.replay.time / 1000).toFixed(1)}s /{' '}
+                  {(getReplayLength(model.strokes) / 1000).toFixed(1)}s
+                </span>
               </div>
             )}
 
-            {model.page === 'game-over' && (
+            {model.page === 'game-over' && !model.replay && (
               <div className="score">
+                <div className="exports">
+                  <button
+                    disabled={model.exportingGif}
+                    onClick={() => dispatch({ type: 'export_gif' })}
+                  >
+                    {model.exportingGif ? 'Encoding GIF…' : 'Save GIF'}
+                  </button>
+                  <button
+                    disabled={!model.resultCard}
+                    onClick={() => dispatch({ type: 'share_result' })}
+                  >
+                    {model.sharedTo === 'clipboard'
+                      ? 'Image copied'
+                      : model.sharedTo === 'download'
+                      ? 'Image saved'
+                      : 'Share'}
+                  </button>
+                  <button onClick={() => dispatch({ type: 'export_svg' })}>
+                    Save SVG
+                  </button>
+                  {!model.dailyKey && (
+                    <button
+                      onClick={() => dispatch({ type: 'challenge_friend' })}
+                    >
+                      {model.challengeLinkCopied
+                        ? 'Link copied'
+                        : 'Challenge a friend'}
+                    </button>
+                  )}
+                  {!model.tracing && (
+                    <button
+                      className={model.heatmapOpen ? 'active' : undefined}
+                      aria-pressed={model.heatmapOpen}
+                      onClick={() => dispatch({ type: 'toggle_heatmap' })}
+                    >
+                      Heatmap
+                    </button>
+                  )}
+                </div>
+                {model.heatmapOpen && !model.tracing && (
+                  <ul className="heatmap-legend">
+                    {heatmapLegend.map(([pixelClass, label]) => (
+                      <li key={pixelClass}>
+                        {viewHeatmapSwatch(pixelClass)}
+                        {label}
+                      </li>
+                    ))}
+                  </ul>
+                )}
                 <div className="score-inner">
                   <div className="stat">
-                    <label>Colored</label>
+                    <label>
+                      {model.tracing
+                        ? 'Traced'
+                        : model.colorResult
+                        ? 'Colored and recalled'
+                        : headline.label}
+                    </label>
                     <b>
                       <button
                         onClick={(e) => {
@@ -970,7 +2724,12 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
                           dispatch({ type: 'open_score_explainer' })
                         }}
                       >
-                        {model.score}
+                        {model.metrics &&
+                        !model.tracing &&
+                        !model.colorResult &&
+                        !model.peeks
+                          ? headline.format(model.metrics[headline.id])
+                          : model.score}
                       </button>
                     </b>
                   </div>
@@ -979,6 +2738,86 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
                     <label>Seconds</label>
                     <b>{Math.floor(model.gameLength / 1000)}</b>
                   </div>
+
+                  <div className="stat">
+                    <label>Rules</label>
+                    <b>
+                      {isStandardSettings(model.gameSettings)
+                        ? 'Standard'
+                        : 'Custom'}
+                    </b>
+                  </div>
+
+                  {model.peeks > 0 && (
+                    <div className="stat">
+                      <label>Peeks</label>
+                      <b>
+                        {model.peeks}, −{model.peeks * peekCost}
+                      </b>
+                    </div>
+                  )}
+
+                  {model.gameChallenge && (
+                    <div className="stat">
+                      <label>
+                        Challenge {formatScore(model.gameChallenge.score)} in{' '}
+                        {Math.floor(model.gameChallenge.gameLength / 1000)}s
+                      </label>
+                      <b>{model.challengeWon ? 'You win!' : 'You lose'}</b>
+                    </div>
+                  )}
+
+                  {model.party && (
+                    <div className="stat">
+                      <label>Player</label>
+                      <b>
+                        {model.party.results.length} of{' '}
+                        {model.party.playerCount}
+                      </b>
+                    </div>
+                  )}
+
+                  {model.colorResult && (
+                    <div className="stat">
+                      <label>Color ΔE</label>
+                      <b>{model.colorResult.deltaE.toFixed(1)}</b>
+                    </div>
+                  )}
+
+                  {model.dailyKey && (
+                    <div className="stat">
+                      <label>
+                        {model.dailyResults[model.dailyKey]?.gameStart ===
+                        model.gameStart
+                          ? 'Daily official'
+                          : `Daily, already played ${
+                              model.dailyResults[model.dailyKey]?.score ??
+                              'unfinished'
+                            }`}
+                      </label>
+                      <b>
+                        {dailyStreak} day{dailyStreak === 1 ? '' : 's'} streak
+                      </b>
+                    </div>
+                  )}
+
+                  {seedReplays && (
+                    <div className="stat">
+                      <label>Seed</label>
+                      <b>
+                        <a
+                          href={getSeedUrl(
+                            model.seed,
+                            model.shapeFamily,
+                            model.gameSettings.minPoints
+                          )}
+                          title="Play this exact shape again"
+                        >
+                          {model.seed}
+                        </a>
+                      </b>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -990,43 +2829,448 @@ export const appProgram = withSubscriptions<Msg, Model, React.ReactNode>({
               <br /> by <a href="https://jew.ski/">Chris Andrejewski</a>
             </p>
 
+            {model.page === 'home' && (
+              <label className="nav-option">
+                Shapes
+                <select
+                  value={model.shapeFamily}
+                  onChange={(e) =>
+                    dispatch({
+                      type: 'set_shape_family',
+                      shapeFamily: e.target.value as ShapeFamilyId,
+                    })
+                  }
+                >
+                  {shapeFamilies.map((family) => (
+                    <option key={family.id} value={family.id}>
+                      {family.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {model.page === 'home' && (
+              <label className="nav-option">
+                Mode
+                <select
+                  value={model.mode}
+                  onChange={(e) =>
+                    dispatch({
+                      type: 'set_mode',
+                      mode: e.target.value as GameModeId,
+                    })
+                  }
+                >
+                  {gameModes.map((mode) => (
+                    <option key={mode.id} value={mode.id}>
+                      {mode.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {model.page === 'home' && (
+              <label className="nav-option">
+                Vision
+                <select
+                  value={model.vision}
+                  onChange={(e) =>
+                    dispatch({
+                      type: 'set_vision',
+                      vision: e.target.value as VisionId,
+                    })
+                  }
+                >
+                  {visions.map((vision) => (
+                    <option key={vision.id} value={vision.id}>
+                      {vision.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {model.page === 'home' && (
+              <label className="nav-option">
+                Players
+                <select
+                  value={model.playerCount}
+                  onChange={(e) =>
+                    dispatch({
+                      type: 'set_player_count',
+                      playerCount: Number(e.target.value),
+                    })
+                  }
+                >
+                  <option value={1}>Solo</option>
+                  {partyPlayerCounts.map((count) => (
+                    <option key={count} value={count}>
+                      {count} players, pass and play
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {model.page === 'home' && (
+              <label className="nav-option">
+                Reveal
+                <select
+                  value={model.revealStyle}
+                  onChange={(e) =>
+                    dispatch({
+                      type: 'set_reveal_style',
+                      style: e.target.value as RevealStyleId,
+                    })
+                  }
+                >
+                  {revealStyles.map((style) => (
+                    <option key={style.id} value={style.id}>
+                      {style.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {model.page === 'home' && (
+              <label className="nav-option">
+                Time
+                <select
+                  value={model.timeLimit || ''}
+                  onChange={(e) =>
+                    dispatch({
+                      type: 'set_time_limit',
+                      timeLimit: Number(e.target.value) || undefined,
+                    })
+                  }
+                >
+                  <option value="">Untimed</option>
+                  {timeLimits.map((timeLimit) => (
+                    <option key={timeLimit} value={timeLimit}>
+                      {timeLimit} seconds
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {model.page === 'game' && (
+              <div className="tools" role="toolbar" aria-label="Drawing tools">
+                <button
+                  className={model.tool === 'brush' ? 'active' : undefined}
+                  aria-pressed={model.tool === 'brush'}
+                  title="Brush (B)"
+                  onClick={() => dispatch({ type: 'set_tool', tool: 'brush' })}
+                >
+                  Brush
+                </button>
+                <button
+                  className={model.tool === 'eraser' ? 'active' : undefined}
+                  aria-pressed={model.tool === 'eraser'}
+                  title="Eraser (E)"
+                  onClick={() => dispatch({ type: 'set_tool', tool: 'eraser' })}
+                >
+                  Eraser
+                </button>
+                {model.gameMode === 'fill' && (
+                  <button
+                    className={model.tool === 'fill' ? 'active' : undefined}
+                    aria-pressed={model.tool === 'fill'}
+                    title="Bucket fill (F)"
+                    onClick={() => dispatch({ type: 'set_tool', tool: 'fill' })}
+                  >
+                    Bucket
+                  </button>
+                )}
+                {brushSizes.map((brushSize, i) => (
+                  <button
+                    key={brushSize}
+                    className={
+                      model.brushSize === brushSize ? 'active' : undefined
+                    }
+                    aria-pressed={model.brushSize === brushSize}
+                    aria-label={`Brush size ${brushSizeLabels[i]}`}
+                    title="Brush size ([ and ])"
+                    onClick={() =>
+                      dispatch({ type: 'set_brush_size', brushSize })
+                    }
+                  >
+                    {brushSizeLabels[i]}
+                  </button>
+                ))}
+                <button
+                  disabled={!model.strokes.length}
+                  title="Undo (Ctrl+Z)"
+                  onClick={() => dispatch({ type: 'undo' })}
+                >
+                  Undo
+                </button>
+                <button
+                  disabled={!model.redoStrokes.length}
+                  title="Redo (Ctrl+Shift+Z)"
+                  onClick={() => dispatch({ type: 'redo' })}
+                >
+                  Redo
+                </button>
+                {model.gameReveal.style === 'peek' && (
+                  <button
+                    className={isPeeking(model, now) ? 'active' : undefined}
+                    title={`Peek (hold Space), costs ${peekCost} points`}
+                    onPointerDown={() => dispatch({ type: 'peek_start' })}
+                    onPointerUp={() => dispatch({ type: 'peek_end' })}
+                    onPointerLeave={() => dispatch({ type: 'peek_end' })}
+                    onKeyDown={(e) => {
+                      if (e.key === ' ' || e.key === 'Enter') {
+                        e.preventDefault()
+                        dispatch({ type: 'peek_start' })
+                      }
+                    }}
+                    onKeyUp={(e) => {
+                      if (e.key === ' ' || e.key === 'Enter') {
+                        e.preventDefault()
+                        dispatch({ type: 'peek_end' })
+                      }
+                    }}
+                  >
+                    Peek
+                  </button>
+                )}
+              </div>
+            )}
+
+            {model.page === 'game' && model.gameTimeLimit && (
+              <p className="countdown" aria-live="off">
+                {Math.ceil(getTimeLeft(model, now) / 1000)}
+              </p>
+            )}
+
+            {model.page === 'home' && (
+              <p className="mode-instructions">
+                {getGameMode(model.mode).instructions}{' '}
+                {getRevealStyle(model.revealStyle).description}
+              </p>
+            )}
+
+            {model.page === 'home' && model.challenge && (
+              <p className="challenge-status">
+                Challenged to beat {formatScore(model.challenge.score)} in{' '}
+                {Math.floor(model.challenge.gameLength / 1000)}s
+                {model.challenge.mode !== 'fill' &&
+                  `, ${getGameMode(model.challenge.mode).label.toLowerCase()}`}
+                {model.challenge.rules.timeLimit &&
+                  `, ${model.challenge.rules.timeLimit}s timed`}
+                {model.challenge.rules.vision !== 'normal' &&
+                  `, ${getVision(model.challenge.rules.vision).label}`}
+                {!isDefaultReveal(model.challenge.rules.reveal) &&
+                  `, ${
+                    getRevealStyle(model.challenge.rules.reveal.style).label
+                  } ${model.challenge.rules.reveal.time / 1000}s`}
+                {(model.challenge.rules.penaltyFactor !==
+                  defaultSettings.penaltyFactor ||
+                  model.challenge.rules.lineWidthScale !==
+                    defaultSettings.lineWidthScale) &&
+                  ', custom rules'}
+                <br />
+                Start to play the same shape by the same rules
+              </p>
+            )}
+
+            {model.page === 'home' && (todaysResult || dailyStreak > 0) && (
+              <p className="daily-status">
+                {todaysResult
+                  ? `Today's daily: ${todaysResult.score ?? 'unfinished'}`
+                  : 'Daily not played yet today'}
+                <br />
+                {dailyStreak} day{dailyStreak === 1 ? '' : 's'} streak
+              </p>
+            )}
+
             {action}
           </div>
 
           {model.scoreExplainerOpen && (
             <div className="modal-container">
-              <div className="modal">
-                <h3>Scoring</h3>
+              <div
+                className="modal"
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="score-explainer-title"
+                tabIndex={-1}
+                ref={focusDialog}
+                onKeyDown={(e) =>
+                  handleDialogKeyDown(e, () =>
+                    dispatch({ type: 'dismiss_score_explainer' })
+                  )
+                }
+              >
+                <h3 id="score-explainer-title">Scoring</h3>
+                {model.colorResult && viewColorExplainer(model.colorResult)}
+                {model.tracing ? (
+                  viewTracingExplainer(model.tracing)
+                ) : (
+                  <>
+                    <p>
+                      The "Colored" percentage is{' '}
+                      <b>pixels colored inside the lines</b> minus{' '}
+                      {model.gameSettings.penaltyFactor} times{' '}
+                      <b>the pixels colored outside the lines</b> divided by the{' '}
+                      <b>shape area in pixels</b> that could have been colored.
+                    </p>
+                    <table className="stats">
+                      <tbody>
+                        <tr>
+                          <th>
+                            {viewHeatmapSwatch(PixelClass.Filled)}
+                            {heatmapLegend[0][1]}
+                          </th>
+                          <td>{model.pixelsFilled} </td>
+                        </tr>
+                        <tr>
+                          <th>
+                            {viewHeatmapSwatch(PixelClass.Overfilled)}
+                            {heatmapLegend[1][1]}
+                          </th>
+                          <td>{model.pixelsOverfilled}</td>
+                        </tr>
+                        <tr>
+                          <th>
+                            {viewHeatmapSwatch(PixelClass.UnderFilled)}
+                            {heatmapLegend[2][1]}
+                          </th>
+                          <td>{model.pixelsUnderFilled}</td>
+                        </tr>
+                        <tr>
+                          <th>Shape area in pixels</th>
+                          <td>
+                            {model.pixelsFilled + model.pixelsUnderFilled}
+                          </td>
+                        </tr>
+                      </tbody>
+                    </table>
+
+                    {model.metrics && (
+                      <>
+                        <p>
+                          Other measures are kinder to a good shape drawn in the
+                          wrong place. Pick the one shown as your score.
+                        </p>
+                        <table className="stats metrics">
+                          <tbody>
+                            {metrics.map((metric) => (
+                              <tr key={metric.id}>
+                                <th>
+                                  <label>
+                                    <input
+                                      type="radio"
+                                      name="headline-metric"
+                                      checked={
+                                        model.headlineMetric === metric.id
+                                      }
+                                      onChange={() =>
+                                        dispatch({
+                                          type: 'set_headline_metric',
+                                          metric: metric.id,
+                                        })
+                                      }
+                                    />{' '}
+                                    {metric.label}
+                                  </label>
+                                  <small>{metric.description}</small>
+                                </th>
+                                <td>
+                                  {metric.format(model.metrics![metric.id])}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </>
+                    )}
+                  </>
+                )}
+
+                <button
+                  className="nav-button"
+                  onClick={() => dispatch({ type: 'dismiss_score_explainer' })}
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          )}
+
+          {openHistoryRecord && (
+            <div className="modal-container">
+              <div
+                className="modal"
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="history-record-title"
+                tabIndex={-1}
+                ref={focusDialog}
+                onKeyDown={(e) =>
+                  handleDialogKeyDown(e, () =>
+                    dispatch({ type: 'dismiss_history_record' })
+                  )
+                }
+              >
+                <h3 id="history-record-title">
+                  {formatScore(openHistoryRecord.score)}
+                </h3>
                 <p>
-                  The "Colored" percentage is{' '}
-                  <b>pixels colored inside the lines</b> minus 5 times{' '}
-                  <b>the pixels colored outside the lines</b> divided by the{' '}
-                  <b>shape area in pixels</b> that could have been colored.
+                  {new Date(openHistoryRecord.id).toLocaleString()}
+                  {openHistoryRecord.dailyKey && ', daily challenge'}
                 </p>
+                <img
+                  alt="Your drawing from this round"
+                  className="history-picture"
+                  src={openHistoryRecord.thumbnailUrl}
+                />
                 <table className="stats">
                   <tbody>
+                    <tr>
+                      <th>Seconds</th>
+                      <td>{openHistoryRecord.seconds}</td>
+                    </tr>
                     <tr>
                       <th>Pixels colored inside the lines</th>
-                      <td>{model.pixelsFilled} </td>
+                      <td>{openHistoryRecord.pixelsFilled}</td>
                     </tr>
                     <tr>
                       <th>Pixels colored outside the lines</th>
-                      <td>{model.pixelsOverfilled}</td>
+                      <td>{openHistoryRecord.pixelsOverfilled}</td>
                     </tr>
                     <tr>
                       <th>Pixels missed colored</th>
-                      <td>{model.pixelsUnderFilled}</td>
-                    </tr>
-                    <tr>
-                      <th>Shape area in pixels</th>
-                      <td>{model.pixelsFilled + model.pixelsUnderFilled}</td>
+                      <td>{openHistoryRecord.pixelsUnderFilled}</td>
                     </tr>
+                    {openHistoryRecord.seed !== undefined &&
+                      !openHistoryRecord.dailyKey && (
+                        <tr>
+                          <th>Seed</th>
+                          <td>
+                            <a
+                              href={getSeedUrl(
+                                openHistoryRecord.seed,
+                                openHistoryRecord.shapeFamily || 'classic',
+                                openHistoryRecord.minPoints ??
+                                  defaultSettings.minPoints
+                              )}
+                            >
+                              {openHistoryRecord.seed}
+                            </a>
+                          </td>
+                        </tr>
+                      )}
                   </tbody>
                 </table>
 
                 <button
                   className="nav-button"
-                  onClick={() => dispatch({ type: 'dismiss_score_explainer' })}
+                  onClick={() => dispatch({ type: 'dismiss_history_record' })}
                 >
                   Dismiss
                 </button>
@@ -0,0 +1,134 @@
+import { drawShapeToCanvas, drawStrokes, fontFamily, LineStyle } from './draw'
+import { getFitTransform, Shape, Size, Stroke } from './geometry'
+import { GameModeId, getGameMode } from './modes'
+
+// What a shared result shows: the target and the attempt side by side,
+// and how the round went below them
+export type ResultCard = {
+  shape: Shape
+  strokes: Stroke[]
+  // The game area the shape and strokes are in, and its pixel ratio
+  area: Size
+  pixelRatio: number
+  shapeColor: string
+  background: string
+  lineStyle: LineStyle
+  // Played with anything but the default settings
+  custom: boolean
+  score: string
+  gameLength: number
+  mode: GameModeId
+  date: Date
+}
+
+const cardWidth = 1200
+const cardHeight = 630
+const cardPadding = 40
+const panelTop = 90
+const panelHeight = 420
+const font = (size: number) => `bold ${size}px ${fontFamily}`
+
+// The card is the same size at every pixel ratio, like a link preview image
+export function renderResultCard(card: ResultCard): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = cardWidth
+  canvas.height = cardHeight
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = '#f4f4f4'
+  ctx.fillRect(0, 0, cardWidth, cardHeight)
+
+  const panelWidth = (cardWidth - cardPadding * 3) / 2
+  const target = makeAreaCanvas(card.area, (areaCtx) =>
+    drawShapeToCanvas(
+      areaCtx,
+      card.area,
+      card.pixelRatio,
+      card.shape,
+      card.shapeColor,
+      true,
+      false,
+      card.lineStyle.lineWidthScale
+    )
+  )
+  // Strokes go on their own canvas as erasing cuts through what's below
+  const attempt = makeAreaCanvas(card.area, (areaCtx) =>
+    drawStrokes(
+      areaCtx,
+      card.area,
+      card.pixelRatio,
+      card.strokes,
+      Infinity,
+      card.lineStyle
+    )
+  )
+  drawPanel(ctx, card, 'Shape', target, cardPadding, panelWidth)
+  drawPanel(
+    ctx,
+    card,
+    'Your drawing',
+    attempt,
+    cardPadding * 2 + panelWidth,
+    panelWidth
+  )
+
+  const baseline = cardHeight - cardPadding
+  ctx.fillStyle = '#000'
+  ctx.font = font(36)
+  ctx.textAlign = 'left'
+  ctx.fillText('Color Blind', cardPadding, baseline)
+
+  ctx.font = font(28)
+  ctx.textAlign = 'right'
+  ctx.fillText(
+    [
+      card.score,
+      `${Math.floor(card.gameLength / 1000)}s`,
+      getGameMode(card.mode).label,
+      card.date.toLocaleDateString(undefined, { dateStyle: 'medium' }),
+      card.custom ? 'Custom rules' : 'Standard rules',
+    ].join(' · '),
+    cardWidth - cardPadding,
+    baseline
+  )
+
+  return canvas
+}
+
+function makeAreaCanvas(
+  area: Size,
+  draw: (ctx: CanvasRenderingContext2D) => void
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = area.width
+  canvas.height = area.height
+  draw(canvas.getContext('2d')!)
+  return canvas
+}
+
+function drawPanel(
+  ctx: CanvasRenderingContext2D,
+  card: ResultCard,
+  label: string,
+  image: HTMLCanvasElement,
+  x: number,
+  width: number
+) {
+  ctx.fillStyle = '#444'
+  ctx.font = font(24)
+  ctx.textAlign = 'left'
+  ctx.fillText(label, x, panelTop - 16)
+
+  ctx.fillStyle = card.background
+  ctx.fillRect(x, panelTop, width, panelHeight)
+  const { scale, offsetX, offsetY } = getFitTransform(card.area, {
+    width,
+    height: panelHeight,
+  })
+  ctx.drawImage(
+    image,
+    x + offsetX,
+    panelTop + offsetY,
+    card.area.width * scale,
+    card.area.height * scale
+  )
+}
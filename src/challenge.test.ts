@@ -0,0 +1,76 @@
+import {
+  Challenge,
+  ChallengeRules,
+  encodeChallenge,
+  getChallengeFromLocation,
+} from './challenge'
+import { defaultReveal } from './reveal'
+import { defaultSettings } from './settings'
+import { fitShapeToArea } from './shapes'
+
+const openLink = (search: string) =>
+  getChallengeFromLocation({ search: `?${search}` } as Location)
+
+describe('challenge links', () => {
+  const rules: ChallengeRules = {
+    timeLimit: undefined,
+    reveal: defaultReveal,
+    vision: 'normal',
+    penaltyFactor: defaultSettings.penaltyFactor,
+    lineWidthScale: defaultSettings.lineWidthScale,
+  }
+  const challenge: Challenge = {
+    shape: {
+      points: [
+        { x: 100, y: 50 },
+        { x: 500, y: 80 },
+        { x: 300, y: 350 },
+      ],
+    },
+    area: { width: 600, height: 400 },
+    mode: 'fill',
+    score: 87.5,
+    gameLength: 12345,
+    rules,
+  }
+
+  it('brings the shape back at its size in the same area', () => {
+    const opened = openLink(encodeChallenge(challenge))
+    expect(opened).toBeDefined()
+    const shape = fitShapeToArea(opened!.shape, opened!.area, challenge.area)
+    shape.points.forEach((p, i) => {
+      expect(p.x).toBeCloseTo(challenge.shape.points[i].x, 0)
+      expect(p.y).toBeCloseTo(challenge.shape.points[i].y, 0)
+    })
+  })
+
+  it('keeps the score, time and mode', () => {
+    const opened = openLink(encodeChallenge({ ...challenge, mode: 'color' }))
+    expect(opened).toMatchObject({
+      mode: 'color',
+      score: 87.5,
+      gameLength: 12345,
+    })
+  })
+
+  it('plays by the rules of the round that set it', () => {
+    const custom: ChallengeRules = {
+      timeLimit: 20,
+      reveal: { style: 'peek', time: 1500 },
+      vision: 'tritanopia',
+      penaltyFactor: 10,
+      lineWidthScale: 1.5,
+    }
+    const opened = openLink(encodeChallenge({ ...challenge, rules: custom }))
+    expect(opened?.rules).toEqual(custom)
+    expect(openLink(encodeChallenge(challenge))?.rules).toEqual(rules)
+  })
+
+  it('rejects a link without a valid area', () => {
+    const params = new URLSearchParams(encodeChallenge(challenge))
+    params.set('area', '0x400')
+    expect(openLink(params.toString())).toBeUndefined()
+    params.delete('area')
+    expect(openLink(params.toString())).toBeUndefined()
+  })
+})
@@ -0,0 +1,176 @@
+import { Point, Shape, Size } from './geometry'
+import { GameModeId, getGameMode } from './modes'
+import { defaultReveal, getRevealStyle, Reveal, RevealStyleId } from './reveal'
+import {
+  clampSetting,
+  defaultSettings,
+  NumberSettingId,
+  numberSettings,
+} from './settings'
+import { getVision, VisionId } from './vision'
+
+// A round sent to a friend to beat. The shape is given in the area it was
+// drawn in, to be fitted to whatever area the friend draws in.
+export type Challenge = {
+  shape: Shape
+  area: Size
+  mode: GameModeId
+  score: number
+  gameLength: number
+  rules: ChallengeRules
+}
+
+// The rules that decide a score, which the friend plays by too
+export type ChallengeRules = {
+  timeLimit: number | undefined
+  reveal: Reveal
+  vision: VisionId
+  penaltyFactor: number
+  lineWidthScale: number
+}
+
+// Each coordinate fits in two base64url digits
+const challengeGridSize = 4095
+
+const digits =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_'
+
+function encodeContour(points: Point[]): string {
+  return points
+    .map(({ x, y }) =>
+      [x, y]
+        .map((value) => {
+          const n = Math.round(Math.min(challengeGridSize, Math.max(0, value)))
+          return digits[n >> 6] + digits[n & 63]
+        })
+        .join('')
+    )
+    .join('')
+}
+
+function decodeContour(text: string): Point[] | undefined {
+  if (text.length % 4 || !/^[\w-]+$/.test(text)) {
+    return undefined
+  }
+
+  const values: number[] = []
+  for (let i = 0; i < text.length; i += 2) {
+    values.push(digits.indexOf(text[i]) * 64 + digits.indexOf(text[i + 1]))
+  }
+
+  const points: Point[] = []
+  for (let i = 0; i < values.length; i += 2) {
+    points.push({ x: values[i], y: values[i + 1] })
+  }
+
+  return points
+}
+
+// The draw area is scaled so its longer side spans the grid, and goes
+// along so the shape keeps its size within it
+export function encodeChallenge(challenge: Challenge): string {
+  const { shape, area, mode, score, gameLength, rules } = challenge
+  const scale = challengeGridSize / Math.max(area.width, area.height)
+  const toGrid = (points: Point[]) =>
+    encodeContour(points.map((p) => ({ x: p.x * scale, y: p.y * scale })))
+
+  const params = new URLSearchParams({
+    challenge: [shape.points, ...(shape.holes || [])].map(toGrid).join('.'),
+    area: [area.width, area.height]
+      .map((side) => Math.max(1, Math.round(side * scale)))
+      .join('x'),
+    score: score.toFixed(2),
+    time: String(Math.round(gameLength)),
+  })
+  if (mode !== 'fill') {
+    params.set('mode', mode)
+  }
+  if (rules.timeLimit) {
+    params.set('limit', String(rules.timeLimit))
+  }
+  if (rules.reveal.style !== defaultReveal.style) {
+    params.set('reveal', rules.reveal.style)
+  }
+  if (rules.reveal.time !== defaultReveal.time) {
+    params.set('revealTime', String(rules.reveal.time))
+  }
+  if (rules.vision !== 'normal') {
+    params.set('vision', rules.vision)
+  }
+  if (rules.penaltyFactor !== defaultSettings.penaltyFactor) {
+    params.set('penalty', String(rules.penaltyFactor))
+  }
+  if (rules.lineWidthScale !== defaultSettings.lineWidthScale) {
+    params.set('lineWidth', String(rules.lineWidthScale))
+  }
+
+  return params.toString()
+}
+
+// Rules missing from the link are the defaults
+function getChallengeRules(params: URLSearchParams): ChallengeRules {
+  const getSetting = (name: string, id: NumberSettingId) => {
+    const value = params.get(name)
+    const setting = numberSettings.find((setting) => setting.id === id)!
+    return value === null
+      ? defaultSettings[id]
+      : clampSetting(setting, Number(value))
+  }
+  const timeLimit = Number(params.get('limit'))
+
+  return {
+    timeLimit:
+      Number.isFinite(timeLimit) && timeLimit > 0 ? timeLimit : undefined,
+    reveal: {
+      style: getRevealStyle(params.get('reveal') as RevealStyleId).id,
+      time: getSetting('revealTime', 'revealTime'),
+    },
+    vision: getVision(params.get('vision') as VisionId).id,
+    penaltyFactor: getSetting('penalty', 'penaltyFactor'),
+    lineWidthScale: getSetting('lineWidth', 'lineWidthScale'),
+  }
+}
+
+export function getChallengeFromLocation(
+  location: Location
+): Challenge | undefined {
+  const params = new URLSearchParams(location.search)
+  const contours = (params.get('challenge') || '').split('.').map(decodeContour)
+  const [width, height] = (params.get('area') || '').split('x').map(Number)
+  const score = Number(params.get('score') ?? NaN)
+  const gameLength = Number(params.get('time') ?? NaN)
+  if (
+    contours.some((contour) => !contour || contour.length < 3) ||
+    ![width, height].every(
+      (side) => Number.isInteger(side) && side > 0 && side <= challengeGridSize
+    ) ||
+    !Number.isFinite(score) ||
+    !Number.isFinite(gameLength)
+  ) {
+    return undefined
+  }
+
+  const [points, ...holes] = contours as Point[][]
+  return {
+    shape: { points, holes: holes.length ? holes : undefined },
+    area: { width, height },
+    mode: getGameMode(params.get('mode') as GameModeId).id,
+    score,
+    gameLength,
+    rules: getChallengeRules(params),
+  }
+}
+
+// A better score wins, and on a tie the faster one
+export function isChallengeBeaten(
+  challenge: Challenge,
+  score: number,
+  gameLength: number
+): boolean {
+  // Compared as shown in the link
+  const rounded = Math.round(score * 100) / 100
+  return (
+    rounded > challenge.score ||
+    (rounded === challenge.score && gameLength < challenge.gameLength)
+  )
+}
@@ -0,0 +1,87 @@
+import { Random } from './random'
+
+export type Rgb = [number, number, number]
+export type Lab = [number, number, number]
+
+export type ColorResult = {
+  target: string
+  guess: string
+  deltaE: number
+  score: number
+}
+
+export function makeRandomRgb(random: Random): Rgb {
+  return [
+    Math.floor(random() * 256),
+    Math.floor(random() * 256),
+    Math.floor(random() * 256),
+  ]
+}
+
+export function makeRandomHexColor(random: Random): string {
+  return toHexColor(makeRandomRgb(random))
+}
+
+export function parseHexColor(hex: string): Rgb {
+  const value = parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+}
+
+export function toHexColor(rgb: Rgb): string {
+  return `#${rgb
+    .map((channel) =>
+      Math.round(Math.min(255, Math.max(0, channel)))
+        .toString(16)
+        .padStart(2, '0')
+    )
+    .join('')}`
+}
+
+// An sRGB channel from 0 to 255 to linear light from 0 to 1, and back
+export function srgbToLinear(channel: number): number {
+  const c = channel / 255
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+}
+
+export function linearToSrgb(value: number): number {
+  const c = Math.min(1, Math.max(0, value))
+  return 255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055)
+}
+
+// sRGB to CIELAB under the D65 white point,
+// see https://en.wikipedia.org/wiki/CIELAB_color_space
+export function rgbToLab([r, g, b]: Rgb): Lab {
+  const lr = srgbToLinear(r)
+  const lg = srgbToLinear(g)
+  const lb = srgbToLinear(b)
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883
+
+  const f = (t: number) =>
+    t > (6 / 29) ** 3 ? Math.cbrt(t) : t / (3 * (6 / 29) ** 2) + 4 / 29
+
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))]
+}
+
+// CIE76, the straight distance between two colors in CIELAB. A difference
+// around 2.3 is just noticeable.
+export function getDeltaE(a: Lab, b: Lab): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+}
+
+// Colors this far apart or more score nothing
+const maxDeltaE = 50
+
+export function scoreColorGuess(target: string, guess: string): ColorResult {
+  const deltaE = getDeltaE(
+    rgbToLab(parseHexColor(target)),
+    rgbToLab(parseHexColor(guess))
+  )
+  return {
+    target,
+    guess,
+    deltaE,
+    score: 100 * Math.max(0, 1 - deltaE / maxDeltaE),
+  }
+}
@@ -0,0 +1,34 @@
+import { finishDailyAttempt, startDailyAttempt } from './daily'
+
+describe('daily attempts', () => {
+  it('keeps the first attempt when another one starts', () => {
+    const started = startDailyAttempt({}, '2026-10-19', 1)
+    expect(startDailyAttempt(started, '2026-10-19', 2)).toBe(started)
+    expect(started['2026-10-19']).toEqual({ gameStart: 1, gameLength: 0 })
+  })
+
+  it('counts an unfinished attempt as the official one', () => {
+    const started = startDailyAttempt({}, '2026-10-19', 1)
+    const retried = startDailyAttempt(started, '2026-10-19', 2)
+    const finished = finishDailyAttempt(retried, '2026-10-19', {
+      gameStart: 2,
+      gameLength: 5000,
+      score: '90.00%',
+    })
+    expect(finished['2026-10-19'].score).toBeUndefined()
+  })
+
+  it('records the result of the first attempt', () => {
+    const started = startDailyAttempt({}, '2026-10-19', 1)
+    const finished = finishDailyAttempt(started, '2026-10-19', {
+      gameStart: 1,
+      gameLength: 5000,
+      score: '90.00%',
+    })
+    expect(finished['2026-10-19']).toEqual({
+      gameStart: 1,
+      gameLength: 5000,
+      score: '90.00%',
+    })
+  })
+})
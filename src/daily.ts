@@ -0,0 +1,95 @@
+export type DailyResult = {
+  gameStart: number
+  gameLength: number
+  // Missing until the attempt is finished, and for good if it never was
+  score?: string
+}
+
+export type DailyResults = Record<string, DailyResult>
+
+const storageKey = 'color-blind:daily-results'
+
+export function getDailyKey(date: Date): string {
+  const year = date.getFullYear()
+  const month = `${date.getMonth() + 1}`.padStart(2, '0')
+  const day = `${date.getDate()}`.padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+// FNV-1a, so every player derives the same seed from the same day
+export function getDailySeed(dailyKey: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < dailyKey.length; i++) {
+    hash ^= dailyKey.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  return hash >>> 0
+}
+
+export function loadDailyResults(): DailyResults {
+  try {
+    const json = window.localStorage.getItem(storageKey)
+    return json ? JSON.parse(json) : {}
+  } catch {
+    return {}
+  }
+}
+
+// Only the first attempt of the day is the official one, so it is recorded
+// as soon as it starts. Leaving it unfinished doesn't earn another try.
+export function startDailyAttempt(
+  results: DailyResults,
+  dailyKey: string,
+  gameStart: number
+): DailyResults {
+  if (results[dailyKey]) {
+    return results
+  }
+
+  return saveDailyResults({
+    ...results,
+    [dailyKey]: { gameStart, gameLength: 0 },
+  })
+}
+
+export function finishDailyAttempt(
+  results: DailyResults,
+  dailyKey: string,
+  result: DailyResult
+): DailyResults {
+  if (results[dailyKey]?.gameStart !== result.gameStart) {
+    return results
+  }
+
+  return saveDailyResults({ ...results, [dailyKey]: result })
+}
+
+function saveDailyResults(newResults: DailyResults): DailyResults {
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(newResults))
+  } catch {
+    // Storage may be full or disabled, the result still counts for this session
+  }
+
+  return newResults
+}
+
+export function getDailyStreak(results: DailyResults, today: Date): number {
+  // Not having played yet today doesn't break a streak from yesterday
+  let offset = results[getDailyKey(today)] ? 0 : 1
+  let streak = 0
+  while (true) {
+    const date = new Date(
+      today.getFullYear(),
+      today.getMonth(),
+      today.getDate() - offset
+    )
+    if (!results[getDailyKey(date)]) {
+      return streak
+    }
+
+    streak++
+    offset++
+  }
+}
@@ -0,0 +1,362 @@
+import { parseHexColor } from './color'
+import {
+  Curve,
+  getInkCurves,
+  getPressureScale,
+  getShapeContours,
+  getStrokeChunks,
+  Mask,
+  Point,
+  Shape,
+  Size,
+  Stroke,
+  StrokePoint,
+  Tool,
+  Transform,
+} from './geometry'
+import { flattenCurves } from './raster'
+import { Classification, PixelClass } from './scoring'
+
+export const defaultInkColor = '#aaaaaa'
+
+// The ink color and a scale for every line width, from the player's settings
+export type LineStyle = {
+  inkColor: string
+  lineWidthScale: number
+}
+
+export const fontFamily =
+  "-apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen', 'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif"
+
+export const captionFont = `bold 24px ${fontFamily}`
+
+// Widths are picked in CSS pixels and scaled to canvas pixels so a line
+// covers the same area, and scores the same, at every pixel ratio.
+export function getLineWidthForCanvasSize(
+  canvasViewSize: Size,
+  pixelRatio: number,
+  lineWidthScale: number
+): number {
+  const min = Math.min(canvasViewSize.width, canvasViewSize.height) / pixelRatio
+  const width = min > 1000 ? 20 : min > 500 ? 15 : 10
+  return width * lineWidthScale * pixelRatio
+}
+
+function traceCurves(ctx: CanvasRenderingContext2D, curves: Curve[]) {
+  ctx.moveTo(curves[0].from.x, curves[0].from.y)
+  for (const { control, to } of curves) {
+    ctx.quadraticCurveTo(control.x, control.y, to.x, to.y)
+  }
+}
+
+export function drawShapeToCanvas(
+  ctx: CanvasRenderingContext2D,
+  canvasViewSize: Size,
+  pixelRatio: number,
+  shape: Shape,
+  color: string,
+  fill: boolean,
+  clear: boolean,
+  lineWidthScale: number
+) {
+  if (clear) {
+    ctx.clearRect(0, 0, canvasViewSize.width, canvasViewSize.height)
+  }
+
+  ctx.lineWidth = getLineWidthForCanvasSize(
+    canvasViewSize,
+    pixelRatio,
+    lineWidthScale
+  )
+  ctx.lineCap = 'round'
+  ctx.strokeStyle = color
+  ctx.fillStyle = color
+
+  ctx.beginPath()
+  for (const contour of getShapeContours(shape)) {
+    traceCurves(ctx, contour)
+  }
+  ctx.stroke()
+  if (fill) {
+    ctx.fill('evenodd')
+  }
+}
+
+// The outline with the start of each contour erased, the erased fraction
+// running from 0 to 1
+export function drawShapeRemainder(
+  ctx: CanvasRenderingContext2D,
+  canvasViewSize: Size,
+  pixelRatio: number,
+  shape: Shape,
+  color: string,
+  erased: number,
+  lineWidthScale: number
+) {
+  ctx.lineWidth = getLineWidthForCanvasSize(
+    canvasViewSize,
+    pixelRatio,
+    lineWidthScale
+  )
+  ctx.lineCap = 'round'
+  ctx.strokeStyle = color
+
+  ctx.beginPath()
+  for (const contour of getShapeContours(shape).map(flattenCurves)) {
+    let length = 0
+    for (let i = 1; i < contour.length; i++) {
+      length += distance(contour[i - 1], contour[i])
+    }
+
+    const start = erased * length
+    let walked = 0
+    let started = false
+    for (let i = 1; i < contour.length; i++) {
+      const from = contour[i - 1]
+      const to = contour[i]
+      const segment = distance(from, to)
+      if (walked + segment > start) {
+        if (!started) {
+          const t = (start - walked) / segment
+          ctx.moveTo(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t)
+          started = true
+        }
+
+        ctx.lineTo(to.x, to.y)
+      }
+
+      walked += segment
+    }
+  }
+  ctx.stroke()
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y)
+
+export function drawPoints(
+  ctx: CanvasRenderingContext2D,
+  points: Point[],
+  tool: Tool,
+  inkColor: string
+) {
+  // The eraser cuts ink out of the canvas rather than painting white
+  ctx.globalCompositeOperation =
+    tool === 'eraser' ? 'destination-out' : 'source-over'
+  ctx.fillStyle = inkColor
+  ctx.strokeStyle = inkColor
+  ctx.lineJoin = 'round'
+  ctx.lineCap = 'round'
+
+  if (points.length < 3) {
+    var b = points[0]
+    ctx.beginPath()
+    ctx.arc(b.x, b.y, ctx.lineWidth / 2, 0, Math.PI * 2, !0)
+    ctx.closePath()
+    ctx.fill()
+  } else {
+    ctx.beginPath()
+    traceCurves(ctx, getInkCurves(points))
+    ctx.stroke()
+  }
+
+  ctx.globalCompositeOperation = 'source-over'
+}
+
+const regionCanvases = new WeakMap<
+  Mask,
+  { inkColor: string; canvas: HTMLCanvasElement }
+>()
+
+// Fill regions are painted from an image of their pixels, made once
+export function getRegionCanvas(
+  region: Mask,
+  inkColor: string
+): HTMLCanvasElement {
+  const cached = regionCanvases.get(region)
+  if (cached && cached.inkColor === inkColor) {
+    return cached.canvas
+  }
+
+  const inkRgb = parseHexColor(inkColor)
+  const canvas = document.createElement('canvas')
+  canvas.width = region.width
+  canvas.height = region.height
+  const ctx = canvas.getContext('2d')!
+  const image = ctx.createImageData(region.width, region.height)
+  for (let i = 0; i < region.data.length; i++) {
+    if (region.data[i]) {
+      image.data[i * 4] = inkRgb[0]
+      image.data[i * 4 + 1] = inkRgb[1]
+      image.data[i * 4 + 2] = inkRgb[2]
+      image.data[i * 4 + 3] = 255
+    }
+  }
+
+  ctx.putImageData(image, 0, 0)
+  regionCanvases.set(region, { inkColor, canvas })
+  return canvas
+}
+
+export function drawStroke(
+  ctx: CanvasRenderingContext2D,
+  canvasViewSize: Size,
+  pixelRatio: number,
+  stroke: Stroke,
+  points: StrokePoint[],
+  lineStyle: LineStyle
+) {
+  if (stroke.tool === 'fill') {
+    ctx.drawImage(getRegionCanvas(stroke.region, lineStyle.inkColor), 0, 0)
+    return
+  }
+
+  ctx.lineWidth =
+    stroke.size *
+    getPressureScale(points) *
+    getLineWidthForCanvasSize(
+      canvasViewSize,
+      pixelRatio,
+      lineStyle.lineWidthScale
+    )
+  drawPoints(ctx, points, stroke.tool, lineStyle.inkColor)
+}
+
+export function drawStrokes(
+  ctx: CanvasRenderingContext2D,
+  canvasViewSize: Size,
+  pixelRatio: number,
+  strokes: Stroke[],
+  until: number,
+  lineStyle: LineStyle
+) {
+  for (const stroke of strokes) {
+    const points = stroke.points.filter((p) => p.time <= until)
+    if (!points.length) {
+      continue
+    }
+
+    for (const chunk of getStrokeChunks(points)) {
+      drawStroke(ctx, canvasViewSize, pixelRatio, stroke, chunk, lineStyle)
+    }
+  }
+}
+
+export function drawCaption(
+  ctx: CanvasRenderingContext2D,
+  canvasViewSize: Size,
+  captionText: string
+) {
+  const nameText = 'Color Blind'
+
+  ctx.fillStyle = '#000'
+  ctx.font = captionFont
+  const nameSize = ctx.measureText(nameText)
+  const padding = 10 * window.devicePixelRatio
+  ctx.fillText(
+    nameText,
+    padding,
+    canvasViewSize.height -
+      padding -
+      nameSize.fontBoundingBoxDescent * window.devicePixelRatio
+  )
+
+  const captionSize = ctx.measureText(captionText)
+  ctx.fillText(
+    captionText,
+    canvasViewSize.width - padding - captionSize.width,
+    canvasViewSize.height -
+      padding -
+      captionSize.fontBoundingBoxDescent * window.devicePixelRatio
+  )
+}
+
+// The shown and guessed colors of a color memory round, side by side in
+// the top right corner
+export function drawColorSwatches(
+  ctx: CanvasRenderingContext2D,
+  canvasViewSize: Size,
+  target: string,
+  guess: string
+) {
+  const padding = 10 * window.devicePixelRatio
+  const swatchSize = 80 * window.devicePixelRatio
+  ctx.font = captionFont
+  ctx.textBaseline = 'top'
+  const swatches = [
+    ['Shown', target],
+    ['Yours', guess],
+  ]
+  swatches.forEach(([label, color], i) => {
+    const x =
+      canvasViewSize.width - (swatches.length - i) * (swatchSize + padding)
+    ctx.fillStyle = color
+    ctx.fillRect(x, padding, swatchSize, swatchSize)
+    ctx.strokeStyle = '#000'
+    ctx.lineWidth = window.devicePixelRatio
+    ctx.strokeRect(x, padding, swatchSize, swatchSize)
+    ctx.fillStyle = '#000'
+    ctx.fillText(label, x, 1.5 * padding + swatchSize)
+  })
+  ctx.textBaseline = 'alphabetic'
+}
+
+// Colors for the heatmap and its legend, told apart with any color vision
+export const heatmapColors = {
+  [PixelClass.Filled]: [0, 114, 178],
+  [PixelClass.Overfilled]: [213, 94, 0],
+  [PixelClass.UnderFilled]: [240, 228, 66],
+}
+
+export const getHeatmapCssColor = (
+  pixelClass: keyof typeof heatmapColors
+): string => `rgb(${heatmapColors[pixelClass].join(',')})`
+
+// Tints each scored pixel by its class on a transparent image of the given
+// size, with the transform placing the classification grid on it
+export function makeHeatmapUrl(
+  classification: Classification,
+  size: Size,
+  transform: Transform
+): string {
+  const grid = document.createElement('canvas')
+  grid.width = classification.width
+  grid.height = classification.height
+  const gridCtx = grid.getContext('2d')!
+  const image = gridCtx.createImageData(grid.width, grid.height)
+  for (let i = 0; i < classification.data.length; i++) {
+    const pixelClass = classification.data[i]
+    if (pixelClass === PixelClass.Blank) {
+      continue
+    }
+
+    const [r, g, b] = heatmapColors[pixelClass as keyof typeof heatmapColors]
+    image.data[i * 4] = r
+    image.data[i * 4 + 1] = g
+    image.data[i * 4 + 2] = b
+    image.data[i * 4 + 3] = 170
+  }
+
+  gridCtx.putImageData(image, 0, 0)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = size.width
+  canvas.height = size.height
+  const ctx = canvas.getContext('2d')!
+  ctx.imageSmoothingEnabled = false
+  const { scale, offsetX, offsetY } = transform
+  ctx.setTransform(scale, 0, 0, scale, offsetX, offsetY)
+  ctx.drawImage(grid, 0, 0)
+  return canvas.toDataURL()
+}
+
+export function makeThumbnailUrl(
+  source: HTMLCanvasElement,
+  maxWidth: number
+): string {
+  const scale = Math.min(1, maxWidth / source.width)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(source.width * scale)
+  canvas.height = Math.round(source.height * scale)
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height)
+  return canvas.toDataURL('image/jpeg', 0.8)
+}
@@ -0,0 +1,311 @@
+import {
+  captionFont,
+  drawCaption,
+  drawShapeRemainder,
+  drawShapeToCanvas,
+  drawStrokes,
+  getLineWidthForCanvasSize,
+  getRegionCanvas,
+  LineStyle,
+} from './draw'
+import {
+  Curve,
+  getInkCurves,
+  getPressureScale,
+  getShapeContours,
+  getStrokeChunks,
+  Shape,
+  Size,
+  Stroke,
+} from './geometry'
+import { encodeGif, GifFrame } from './gif'
+import { getErasedFraction, getRevealOpacity, Reveal } from './reveal'
+
+export type Round = {
+  shape: Shape
+  strokes: Stroke[]
+  canvasViewSize: Size
+  pixelRatio: number
+  reveal: Reveal
+  caption: string
+  shapeColor: string
+  background: string
+  lineStyle: LineStyle
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export type ShareTarget = 'share' | 'clipboard' | 'download'
+
+// Through the share sheet where files can be shared, or else copied as an
+// image, or else saved. Nothing happens when the share sheet is dismissed.
+export async function shareImage(
+  blob: Blob,
+  filename: string,
+  text: string
+): Promise<ShareTarget | undefined> {
+  const file = new File([blob], filename, { type: blob.type })
+  if (navigator.canShare && navigator.canShare({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], text })
+      return 'share'
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return undefined
+      }
+    }
+  }
+
+  try {
+    await navigator.clipboard.write([new ClipboardItem({ [blob.type]: blob })])
+    return 'clipboard'
+  } catch {
+    downloadBlob(blob, filename)
+    return 'download'
+  }
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Empty canvas'))),
+      'image/png'
+    )
+  )
+}
+
+export function dataUrlToBlob(url: string): Blob {
+  const [header, data] = url.split(',')
+  const type = header.slice('data:'.length).split(';')[0]
+  const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+  return new Blob([bytes], { type })
+}
+
+const gifMaxWidth = 480
+const gifFrameDelay = 100
+const gifMaxDrawingFrames = 150
+const gifFinalFrameDelay = 4000
+
+export function renderRoundGif(round: Round): Blob {
+  const {
+    shape,
+    strokes,
+    canvasViewSize,
+    pixelRatio,
+    reveal,
+    caption,
+    shapeColor,
+    background,
+    lineStyle,
+  } = round
+  const scale = Math.min(1, gifMaxWidth / canvasViewSize.width)
+  const width = Math.round(canvasViewSize.width * scale)
+  const height = Math.round(canvasViewSize.height * scale)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')!
+
+  const frames: GifFrame[] = []
+  const addFrame = (
+    time: number,
+    shapeOpacity: number,
+    delay: number,
+    withCaption = false,
+    erased = 0
+  ) => {
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.fillStyle = background
+    ctx.fillRect(0, 0, width, height)
+    ctx.setTransform(scale, 0, 0, scale, 0, 0)
+
+    drawStrokes(ctx, canvasViewSize, pixelRatio, strokes, time, lineStyle)
+    if (erased > 0) {
+      drawShapeRemainder(
+        ctx,
+        canvasViewSize,
+        pixelRatio,
+        shape,
+        shapeColor,
+        erased,
+        lineStyle.lineWidthScale
+      )
+    } else if (shapeOpacity > 0) {
+      ctx.globalAlpha = shapeOpacity
+      drawShapeToCanvas(
+        ctx,
+        canvasViewSize,
+        pixelRatio,
+        shape,
+        shapeColor,
+        false,
+        false,
+        lineStyle.lineWidthScale
+      )
+      ctx.globalAlpha = 1
+    }
+
+    if (withCaption) {
+      drawCaption(ctx, canvasViewSize, caption)
+    }
+
+    frames.push({ pixels: ctx.getImageData(0, 0, width, height).data, delay })
+  }
+
+  // The shape is revealed and goes away, as it did in the game
+  for (let time = 0; time <= reveal.time; time += gifFrameDelay) {
+    addFrame(
+      time,
+      getRevealOpacity(reveal, time),
+      gifFrameDelay,
+      false,
+      getErasedFraction(reveal, time)
+    )
+  }
+
+  // Long rounds are sped up to keep the file small
+  const lastStroke = strokes[strokes.length - 1]
+  const drawingEnd = lastStroke
+    ? lastStroke.points[lastStroke.points.length - 1].time
+    : reveal.time
+  const step = Math.max(
+    gifFrameDelay,
+    (drawingEnd - reveal.time) / gifMaxDrawingFrames
+  )
+  for (let time = reveal.time + step; time < drawingEnd; time += step) {
+    addFrame(time, 0, gifFrameDelay)
+  }
+
+  addFrame(Infinity, 1, gifFinalFrameDelay, true)
+
+  return new Blob([encodeGif(width, height, frames)], { type: 'image/gif' })
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+function curvesToPathData(curves: Curve[]): string {
+  const [{ from }] = curves
+  return [
+    `M${round2(from.x)} ${round2(from.y)}`,
+    ...curves.map(
+      ({ control, to }) =>
+        `Q${round2(control.x)} ${round2(control.y)} ${round2(to.x)} ${round2(
+          to.y
+        )}`
+    ),
+  ].join(' ')
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+// Each layer is a group Inkscape and Illustrator both pick up as a layer
+function svgLayer(id: string, label: string, children: string[]): string {
+  return [
+    `<g id="${id}" inkscape:groupmode="layer" inkscape:label="${label}">`,
+    ...children.map((child) => `  ${child}`),
+    '</g>',
+  ].join('\n')
+}
+
+export function renderRoundSvg(round: Round): Blob {
+  const {
+    shape,
+    strokes,
+    canvasViewSize,
+    pixelRatio,
+    caption,
+    shapeColor,
+    background,
+    lineStyle,
+  } = round
+  const { width, height } = canvasViewSize
+
+  const lineWidth = getLineWidthForCanvasSize(
+    canvasViewSize,
+    pixelRatio,
+    lineStyle.lineWidthScale
+  )
+  const ink: string[] = []
+  for (const stroke of strokes) {
+    if (stroke.tool === 'fill') {
+      // Filled regions have no outline to speak of, so they go in as images
+      ink.push(
+        `<image width="${width}" height="${height}" href="${getRegionCanvas(
+          stroke.region,
+          lineStyle.inkColor
+        ).toDataURL()}" />`
+      )
+      continue
+    }
+
+    // Erasing paints the background back over the ink below it
+    const color = stroke.tool === 'eraser' ? background : lineStyle.inkColor
+    for (const chunk of getStrokeChunks(stroke.points)) {
+      const inkWidth = round2(lineWidth * stroke.size * getPressureScale(chunk))
+      if (chunk.length < 3) {
+        const [{ x, y }] = chunk
+        ink.push(
+          `<circle cx="${round2(x)}" cy="${round2(y)}" r="${
+            inkWidth / 2
+          }" fill="${color}" stroke="none" />`
+        )
+      } else {
+        ink.push(
+          `<path d="${curvesToPathData(
+            getInkCurves(chunk)
+          )}" stroke="${color}" stroke-width="${inkWidth}" />`
+        )
+      }
+    }
+  }
+
+  const padding = 10 * window.devicePixelRatio
+  const textY = height - padding
+
+  const svg = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    '<title>Color Blind</title>',
+    `<rect id="background" width="${width}" height="${height}" fill="${background}" />`,
+    svgLayer('ink', 'Your drawing', [
+      `<g fill="none" stroke-linecap="round" stroke-linejoin="round">`,
+      ...ink.map((element) => `  ${element}`),
+      '</g>',
+    ]),
+    svgLayer('target', 'Target shape', [
+      `<path d="${getShapeContours(shape)
+        .map(curvesToPathData)
+        .join(' ')}" fill="none" stroke="${shapeColor}" stroke-width="${round2(
+        lineWidth
+      )}" stroke-linecap="round" />`,
+    ]),
+    svgLayer('score', 'Score', [
+      `<text x="${padding}" y="${textY}" style="font: ${escapeXml(
+        captionFont
+      )}">Color Blind</text>`,
+      `<text x="${
+        width - padding
+      }" y="${textY}" text-anchor="end" style="font: ${escapeXml(
+        captionFont
+      )}">${escapeXml(caption)}</text>`,
+    ]),
+    '</svg>',
+  ].join('\n')
+
+  return new Blob([svg], { type: 'image/svg+xml' })
+}
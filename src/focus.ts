@@ -0,0 +1,64 @@
+import React from 'react'
+
+let focusBeforeDialog: HTMLElement | undefined
+
+const focusableSelector =
+  'a[href], button:not(:disabled), input:not(:disabled), select:not(:disabled), [tabindex]:not([tabindex="-1"])'
+
+// Used as a dialog's ref, it moves focus into the dialog when it opens and
+// leaves it alone while it's already inside
+export function focusDialog(dialog: HTMLElement | null) {
+  if (!dialog || dialog.contains(document.activeElement)) {
+    return
+  }
+
+  if (document.activeElement instanceof HTMLElement) {
+    focusBeforeDialog = document.activeElement
+  }
+
+  dialog.focus()
+}
+
+// Puts focus back where it was before the dialog opened
+export function restoreFocus() {
+  if (focusBeforeDialog && focusBeforeDialog.isConnected) {
+    focusBeforeDialog.focus()
+  }
+
+  focusBeforeDialog = undefined
+}
+
+// Escape dismisses the dialog and Tab cycles through its controls only
+export function handleDialogKeyDown(
+  e: React.KeyboardEvent<HTMLElement>,
+  onDismiss: () => void
+) {
+  if (e.key === 'Escape') {
+    e.preventDefault()
+    onDismiss()
+    return
+  }
+
+  if (e.key !== 'Tab') {
+    return
+  }
+
+  const focusable = Array.from(
+    e.currentTarget.querySelectorAll<HTMLElement>(focusableSelector)
+  )
+  if (!focusable.length) {
+    e.preventDefault()
+    return
+  }
+
+  const first = focusable[0]
+  const last = focusable[focusable.length - 1]
+  const active = document.activeElement
+  if (e.shiftKey && (active === first || active === e.currentTarget)) {
+    e.preventDefault()
+    last.focus()
+  } else if (!e.shiftKey && active === last) {
+    e.preventDefault()
+    first.focus()
+  }
+}
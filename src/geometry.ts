@@ -0,0 +1,129 @@
+export type Point = { x: number; y: number }
+
+export type Size = {
+  width: number
+  height: number
+}
+
+// A single bit per pixel, sampled at pixel centers, so there is no
+// anti-aliasing and every pixel is either in or out.
+export type Mask = {
+  width: number
+  height: number
+  data: Uint8Array
+}
+
+export type Shape = {
+  points: Point[]
+  // Contours cut out of the shape, drawn and scored with the even-odd rule
+  holes?: Point[][]
+}
+
+// Time is in milliseconds since the start of the game. Pressure is only
+// recorded for pens, from 0 to 1.
+export type StrokePoint = Point & { time: number; pressure?: number }
+
+export type Tool = 'brush' | 'eraser' | 'fill'
+
+// Brush and eraser sizes are multiples of the canvas line width
+export type Stroke =
+  | {
+      tool: 'brush' | 'eraser'
+      size: number
+      points: StrokePoint[]
+    }
+  | {
+      tool: 'fill'
+      // The single point the fill was started from
+      points: StrokePoint[]
+      // The filled pixels at the canvas size, kept around for redrawing
+      region: Mask
+    }
+
+export type Curve = { from: Point; control: Point; to: Point }
+
+export type Transform = { scale: number; offsetX: number; offsetY: number }
+
+// Scales an area uniformly to fit inside another, centered in it
+export function getFitTransform(from: Size, to: Size): Transform {
+  const scale = Math.min(to.width / from.width, to.height / from.height)
+  return {
+    scale,
+    offsetX: (to.width - from.width * scale) / 2,
+    offsetY: (to.height - from.height * scale) / 2,
+  }
+}
+
+const midpoint = (a: Point, b: Point): Point => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+})
+
+// The closed outlines of a shape, its outside first and then any holes,
+// each smoothed through the midpoints of its edges
+export function getShapeContours(shape: Shape): Curve[][] {
+  return [shape.points, ...(shape.holes || [])].map(getContourCurves)
+}
+
+function getContourCurves(contour: Point[]): Curve[] {
+  const [start, ...rest] = contour
+  const points = [start, ...rest, start]
+
+  const curves: Curve[] = []
+  let from = start
+  for (let i = 0; i < points.length; i++) {
+    const nextPoint = points[i + 1] || start
+    const to = midpoint(points[i], nextPoint)
+    curves.push({ from, control: points[i], to })
+    from = to
+  }
+
+  return curves
+}
+
+// A run of at least three ink points, smoothed the same way as the outline
+export function getInkCurves(points: Point[]): Curve[] {
+  const curves: Curve[] = []
+  let from = points[0]
+
+  let i = 1
+  for (; i < points.length - 2; i++) {
+    const to = midpoint(points[i], points[i + 1])
+    curves.push({ from, control: points[i], to })
+    from = to
+  }
+
+  curves.push({ from, control: points[i], to: points[i + 1] })
+  return curves
+}
+
+// Pen pressure scales a chunk's width between half and one and a half
+// times the brush size, a light touch being about the regular width
+export function getPressureScale(points: StrokePoint[]): number {
+  let total = 0
+  let count = 0
+  for (const { pressure } of points) {
+    if (pressure !== undefined) {
+      total += pressure
+      count++
+    }
+  }
+
+  return count ? 0.5 + total / count : 1
+}
+
+export const strokeChunkSize = 5
+
+// Strokes are painted while drawing in chunks of up to six points,
+// each chunk starting where the previous one ended.
+export function getStrokeChunks<P extends Point>(points: P[]): P[][] {
+  const chunks: P[][] = []
+  let start = 0
+  while (points.length - start > strokeChunkSize) {
+    chunks.push(points.slice(start, start + strokeChunkSize + 1))
+    start += strokeChunkSize
+  }
+
+  chunks.push(points.slice(start))
+  return chunks
+}
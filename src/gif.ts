@@ -0,0 +1,215 @@
+// A small GIF89a encoder, just enough for looping animations of game rounds.
+// See https://www.w3.org/Graphics/GIF/spec-gif89a.txt
+
+export type GifFrame = {
+  // RGBA pixels, as returned by getImageData
+  pixels: Uint8ClampedArray
+  // Milliseconds, GIF stores these in hundredths of a second
+  delay: number
+}
+
+// A 6x6x6 color cube plus a ramp of grays, enough for the game's ink and
+// shapes without needing per-frame color quantization.
+function makePalette(): number[][] {
+  const palette: number[][] = []
+  for (let r = 0; r < 6; r++) {
+    for (let g = 0; g < 6; g++) {
+      for (let b = 0; b < 6; b++) {
+        palette.push([r * 51, g * 51, b * 51])
+      }
+    }
+  }
+
+  const grayCount = 256 - palette.length
+  for (let i = 0; i < grayCount; i++) {
+    const gray = Math.round(((i + 1) * 255) / (grayCount + 1))
+    palette.push([gray, gray, gray])
+  }
+
+  return palette
+}
+
+const palette = makePalette()
+const grayOffset = 216
+
+function getPaletteIndex(r: number, g: number, b: number): number {
+  const ri = Math.round(r / 51)
+  const gi = Math.round(g / 51)
+  const bi = Math.round(b / 51)
+  const cubeIndex = ri * 36 + gi * 6 + bi
+  const cubeDistance =
+    (r - ri * 51) ** 2 + (g - gi * 51) ** 2 + (b - bi * 51) ** 2
+
+  const grayCount = 256 - grayOffset
+  const average = (r + g + b) / 3
+  const grayIndex =
+    grayOffset +
+    Math.min(
+      grayCount - 1,
+      Math.max(0, Math.round((average * (grayCount + 1)) / 255) - 1)
+    )
+  const [gray] = palette[grayIndex]
+  const grayDistance = (r - gray) ** 2 + (g - gray) ** 2 + (b - gray) ** 2
+
+  return grayDistance < cubeDistance ? grayIndex : cubeIndex
+}
+
+function indexPixels(pixels: Uint8ClampedArray): Uint8Array {
+  const indices = new Uint8Array(pixels.length / 4)
+  for (let i = 0; i < indices.length; i++) {
+    const alpha = pixels[i * 4 + 3] / 255
+    // Flatten transparency onto white
+    const r = pixels[i * 4] * alpha + 255 * (1 - alpha)
+    const g = pixels[i * 4 + 1] * alpha + 255 * (1 - alpha)
+    const b = pixels[i * 4 + 2] * alpha + 255 * (1 - alpha)
+    indices[i] = getPaletteIndex(r, g, b)
+  }
+
+  return indices
+}
+
+class ByteWriter {
+  bytes: number[] = []
+
+  byte(value: number) {
+    this.bytes.push(value & 0xff)
+  }
+
+  word(value: number) {
+    this.byte(value)
+    this.byte(value >> 8)
+  }
+
+  text(value: string) {
+    for (let i = 0; i < value.length; i++) {
+      this.byte(value.charCodeAt(i))
+    }
+  }
+
+  // Data goes out in sub-blocks of at most 255 bytes
+  blocks(data: number[]) {
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.slice(i, i + 255)
+      this.byte(block.length)
+      this.bytes.push(...block)
+    }
+
+    this.byte(0)
+  }
+}
+
+function lzwEncode(indices: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+
+  const output: number[] = []
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let codeTable = new Map<number, number>()
+  let bitBuffer = 0
+  let bitCount = 0
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff)
+      bitBuffer >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  emit(clearCode)
+
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i]
+    const key = (prefix << 8) | index
+    const code = codeTable.get(key)
+    if (code !== undefined) {
+      prefix = code
+      continue
+    }
+
+    emit(prefix)
+    if (nextCode === 4096) {
+      emit(clearCode)
+      codeTable = new Map()
+      codeSize = minCodeSize + 1
+      nextCode = endCode + 1
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize++
+      }
+
+      codeTable.set(key, nextCode++)
+    }
+
+    prefix = index
+  }
+
+  emit(prefix)
+  emit(endCode)
+  if (bitCount > 0) {
+    output.push(bitBuffer & 0xff)
+  }
+
+  return output
+}
+
+export function encodeGif(
+  width: number,
+  height: number,
+  frames: GifFrame[]
+): Uint8Array {
+  const writer = new ByteWriter()
+
+  writer.text('GIF89a')
+  writer.word(width)
+  writer.word(height)
+  // Global color table of 256 entries at 8 bits per channel
+  writer.byte(0xf7)
+  writer.byte(0)
+  writer.byte(0)
+  for (const [r, g, b] of palette) {
+    writer.byte(r)
+    writer.byte(g)
+    writer.byte(b)
+  }
+
+  // Loop forever
+  writer.byte(0x21)
+  writer.byte(0xff)
+  writer.byte(11)
+  writer.text('NETSCAPE2.0')
+  writer.byte(3)
+  writer.byte(1)
+  writer.word(0)
+  writer.byte(0)
+
+  for (const frame of frames) {
+    // Graphic control extension with the frame delay
+    writer.byte(0x21)
+    writer.byte(0xf9)
+    writer.byte(4)
+    writer.byte(0x04)
+    writer.word(Math.round(frame.delay / 10))
+    writer.byte(0)
+    writer.byte(0)
+
+    // Image descriptor covering the whole canvas, no local color table
+    writer.byte(0x2c)
+    writer.word(0)
+    writer.word(0)
+    writer.word(width)
+    writer.word(height)
+    writer.byte(0)
+
+    const minCodeSize = 8
+    writer.byte(minCodeSize)
+    writer.blocks(lzwEncode(indexPixels(frame.pixels), minCodeSize))
+  }
+
+  writer.byte(0x3b)
+  return new Uint8Array(writer.bytes)
+}
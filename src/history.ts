@@ -0,0 +1,99 @@
+import { GameModeId } from './modes'
+import { ShapeFamilyId } from './shapes'
+import { Reveal } from './reveal'
+import { VisionId } from './vision'
+
+export type GameRecord = {
+  // The game start timestamp doubles as the id
+  id: number
+  score: number
+  seconds: number
+  pixelsFilled: number
+  pixelsOverfilled: number
+  pixelsUnderFilled: number
+  thumbnailUrl: string
+  seed: number | undefined
+  shapeFamily?: ShapeFamilyId
+  // Missing for the default shape points
+  minPoints?: number
+  dailyKey?: string
+  // Seconds allowed for drawing, missing for untimed games
+  timeLimit?: number
+  // Missing for the original fill mode
+  mode?: GameModeId
+  // Missing for normal color vision
+  vision?: VisionId
+  // Missing for the default two second fade
+  reveal?: Reveal
+  peeks?: number
+  // Set when played with anything but the default settings
+  custom?: true
+}
+
+export type HistoryStats = {
+  count: number
+  best: GameRecord | undefined
+  averageScore: number
+  averageSeconds: number
+}
+
+const storageKey = 'color-blind:history'
+
+export function loadHistory(): GameRecord[] {
+  try {
+    const json = window.localStorage.getItem(storageKey)
+    return json ? JSON.parse(json) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveGameRecord(
+  history: GameRecord[],
+  record: GameRecord
+): GameRecord[] {
+  const newHistory = [...history, record]
+
+  // Thumbnails add up, so when storage runs out we drop the oldest rounds
+  let kept = newHistory
+  while (kept.length) {
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(kept))
+      break
+    } catch {
+      kept = kept.slice(1)
+    }
+  }
+
+  return newHistory
+}
+
+export function getHistoryStats(history: GameRecord[]): HistoryStats {
+  const count = history.length
+  if (!count) {
+    return { count, best: undefined, averageScore: 0, averageSeconds: 0 }
+  }
+
+  let best = history[0]
+  let totalScore = 0
+  let totalSeconds = 0
+  for (const record of history) {
+    if (record.score > best.score) {
+      best = record
+    }
+
+    totalScore += record.score
+    totalSeconds += record.seconds
+  }
+
+  return {
+    count,
+    best,
+    averageScore: totalScore / count,
+    averageSeconds: totalSeconds / count,
+  }
+}
+
+export function formatScore(score: number): string {
+  return `${score.toFixed(2)}%`
+}
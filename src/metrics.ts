@@ -0,0 +1,214 @@
+import { Mask } from './geometry'
+import { getMaskBoundary, getSquaredDistanceField, makeMask } from './raster'
+import { ScoreBreakdown, ScoringResult } from './scoring'
+
+// Every way a drawing is measured, with distances in CSS pixels
+export type Metrics = {
+  colored: number
+  iou: number
+  meanDistance: number
+  hausdorffDistance: number
+  shapeMemory: number
+}
+
+export type MetricId = keyof Metrics
+
+export type MetricInfo = {
+  id: MetricId
+  label: string
+  description: string
+  format: (value: number) => string
+}
+
+const formatPercentage = (value: number) => `${value.toFixed(2)}%`
+
+const formatDistance = (value: number) =>
+  Number.isFinite(value) ? `${value.toFixed(1)}px` : '–'
+
+export const metrics: MetricInfo[] = [
+  {
+    id: 'colored',
+    label: 'Colored',
+    description:
+      'Pixels colored inside the lines, minus the penalty times those outside, over the shape area',
+    format: formatPercentage,
+  },
+  {
+    id: 'iou',
+    label: 'Overlap',
+    description:
+      'Intersection over union of the shape and the drawing, in percent',
+    format: formatPercentage,
+  },
+  {
+    id: 'meanDistance',
+    label: 'Outline error',
+    description:
+      'Average distance between the shape outline and the edge of the drawing',
+    format: formatDistance,
+  },
+  {
+    id: 'hausdorffDistance',
+    label: 'Worst outline error',
+    description:
+      'Largest distance from any point of either outline to the other',
+    format: formatDistance,
+  },
+  {
+    id: 'shapeMemory',
+    label: 'Shape memory',
+    description:
+      'Overlap after moving, and maybe scaling, the drawing to best match the shape',
+    format: formatPercentage,
+  },
+]
+
+export function getMetricInfo(id: MetricId): MetricInfo {
+  return metrics.find((metric) => metric.id === id) || metrics[0]
+}
+
+export const defaultPenaltyFactor = 5
+
+export function getColoredScore(
+  { pixelsFilled, pixelsOverfilled, pixelsUnderFilled }: ScoreBreakdown,
+  penaltyFactor = defaultPenaltyFactor
+): number {
+  return (
+    (100 * pixelsFilled - penaltyFactor * pixelsOverfilled) /
+    (pixelsFilled + pixelsUnderFilled)
+  )
+}
+
+function getIou(target: Mask, ink: Mask): number {
+  let intersection = 0
+  let union = 0
+  for (let i = 0; i < target.data.length; i++) {
+    if (target.data[i] && ink.data[i]) {
+      intersection++
+    }
+
+    if (target.data[i] || ink.data[i]) {
+      union++
+    }
+  }
+
+  return union ? (100 * intersection) / union : 0
+}
+
+// Distances from each outline to the other, as the mean over both
+// outlines and the largest one
+function getContourDistances(target: Mask, ink: Mask) {
+  const targetBoundary = getMaskBoundary(target)
+  const inkBoundary = getMaskBoundary(ink)
+  const toTarget = getSquaredDistanceField(targetBoundary)
+  const toInk = getSquaredDistanceField(inkBoundary)
+
+  let total = 0
+  let count = 0
+  let max = 0
+  const add = (squaredDistance: number) => {
+    const distance = Math.sqrt(squaredDistance)
+    total += distance
+    count++
+    max = Math.max(max, distance)
+  }
+
+  for (let i = 0; i < targetBoundary.data.length; i++) {
+    if (targetBoundary.data[i]) {
+      add(toInk[i])
+    }
+
+    if (inkBoundary.data[i]) {
+      add(toTarget[i])
+    }
+  }
+
+  return {
+    mean: count ? total / count : Infinity,
+    max: count ? max : Infinity,
+  }
+}
+
+function getMoments(mask: Mask) {
+  let area = 0
+  let x = 0
+  let y = 0
+  for (let i = 0; i < mask.data.length; i++) {
+    if (mask.data[i]) {
+      area++
+      x += i % mask.width
+      y += Math.floor(i / mask.width)
+    }
+  }
+
+  return { area, x: x / area, y: y / area }
+}
+
+// The drawing moved so its centroid lies on the shape's, and when scaling
+// scaled so both have the same area. That's how it would score if the player
+// remembered the shape well but misjudged where or how large it was.
+function alignToTarget(target: Mask, ink: Mask, withScale: boolean): Mask {
+  const targetMoments = getMoments(target)
+  const inkMoments = getMoments(ink)
+  const aligned = makeMask(target)
+  if (!targetMoments.area || !inkMoments.area) {
+    return aligned
+  }
+
+  const scale = withScale ? Math.sqrt(inkMoments.area / targetMoments.area) : 1
+  for (let y = 0; y < aligned.height; y++) {
+    const inkY = Math.round((y - targetMoments.y) * scale + inkMoments.y)
+    if (inkY < 0 || inkY >= ink.height) {
+      continue
+    }
+
+    for (let x = 0; x < aligned.width; x++) {
+      const inkX = Math.round((x - targetMoments.x) * scale + inkMoments.x)
+      if (inkX >= 0 && inkX < ink.width && ink.data[inkY * ink.width + inkX]) {
+        aligned.data[y * aligned.width + x] = 1
+      }
+    }
+  }
+
+  return aligned
+}
+
+export function measureDrawing(
+  result: ScoringResult,
+  penaltyFactor = defaultPenaltyFactor
+): Metrics {
+  const { target, ink } = result
+  const distances = getContourDistances(target, ink)
+  const iou = getIou(target, ink)
+  return {
+    colored: getColoredScore(result, penaltyFactor),
+    iou,
+    meanDistance: distances.mean,
+    hausdorffDistance: distances.max,
+    // Aligning by moments isn't always an improvement, so the best of
+    // moving, moving and scaling, or leaving the drawing be counts
+    shapeMemory: Math.max(
+      iou,
+      getIou(target, alignToTarget(target, ink, false)),
+      getIou(target, alignToTarget(target, ink, true))
+    ),
+  }
+}
+
+const storageKey = 'color-blind:headline-metric'
+
+export function loadHeadlineMetric(): MetricId {
+  try {
+    return getMetricInfo(window.localStorage.getItem(storageKey) as MetricId).id
+  } catch {
+    return 'colored'
+  }
+}
+
+export function saveHeadlineMetric(id: MetricId) {
+  try {
+    window.localStorage.setItem(storageKey, id)
+  } catch {
+    // Storage may be full or disabled, the choice still holds for this session
+  }
+}
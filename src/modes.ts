@@ -0,0 +1,32 @@
+export type GameModeId = 'fill' | 'trace' | 'color'
+
+export type GameMode = {
+  id: GameModeId
+  label: string
+  instructions: string
+}
+
+export const gameModes: GameMode[] = [
+  {
+    id: 'fill',
+    label: 'Fill',
+    instructions:
+      'Remember the shape, then color it in once it fades. Stay inside the lines.',
+  },
+  {
+    id: 'trace',
+    label: 'Trace',
+    instructions:
+      'Remember the shape, then trace its outline once it fades. Cover all of it and stay close.',
+  },
+  {
+    id: 'color',
+    label: 'Color memory',
+    instructions:
+      'Remember the shape and its color. Color the shape in, then pick the color it was shown in.',
+  },
+]
+
+export function getGameMode(id: GameModeId): GameMode {
+  return gameModes.find((mode) => mode.id === id) || gameModes[0]
+}
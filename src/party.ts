@@ -0,0 +1,53 @@
+import { Shape, Size } from './geometry'
+
+// Pass-and-play, where players take turns drawing the same shape
+export type Party = {
+  playerCount: number
+  seed: number
+  shape: Shape
+  // The area the shape was made in, to fit it to later turns' screens
+  shapeArea: Size
+  results: PartyResult[]
+}
+
+export type PartyResult = {
+  player: number
+  score: number
+  gameLength: number
+  finalUrl: string
+}
+
+export const partyPlayerCounts = [2, 3, 4, 5, 6, 7, 8]
+
+export function makeParty(
+  playerCount: number,
+  seed: number,
+  shape: Shape,
+  shapeArea: Size
+): Party {
+  return { playerCount, seed, shape, shapeArea, results: [] }
+}
+
+export function addPartyResult(
+  party: Party,
+  result: Omit<PartyResult, 'player'>
+): Party {
+  return {
+    ...party,
+    results: [
+      ...party.results,
+      { ...result, player: party.results.length + 1 },
+    ],
+  }
+}
+
+export function isPartyOver(party: Party): boolean {
+  return party.results.length >= party.playerCount
+}
+
+// Best score first, with the faster player ahead on a tie
+export function getPartyRanking(party: Party): PartyResult[] {
+  return party.results
+    .slice()
+    .sort((a, b) => b.score - a.score || a.gameLength - b.gameLength)
+}
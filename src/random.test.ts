@@ -0,0 +1,65 @@
+import { getSeedFromLocation, makeSeededRandom, parseSeed } from './random'
+
+const take = (seed: number, count: number) => {
+  const random = makeSeededRandom(seed)
+  return Array.from({ length: count }, () => random())
+}
+
+describe('makeSeededRandom', () => {
+  it('gives the same sequence for the same seed', () => {
+    expect(take(42, 5)).toEqual(take(42, 5))
+  })
+
+  it('gives a fixed sequence for a fixed seed', () => {
+    expect(take(1, 3).map((n) => Math.floor(n * 4294967296))).toEqual([
+      2693262067, 11749833, 2265367787,
+    ])
+  })
+
+  it('gives numbers in [0, 1)', () => {
+    for (const n of take(7, 1000)) {
+      expect(n).toBeGreaterThanOrEqual(0)
+      expect(n).toBeLessThan(1)
+    }
+  })
+
+  it('gives different sequences for different seeds', () => {
+    expect(take(1, 5)).not.toEqual(take(2, 5))
+  })
+})
+
+describe('parseSeed', () => {
+  it('accepts unsigned 32 bit integers', () => {
+    expect(parseSeed('0')).toBe(0)
+    expect(parseSeed('123')).toBe(123)
+    expect(parseSeed('4294967295')).toBe(4294967295)
+  })
+
+  it.each([
+    null,
+    undefined,
+    '',
+    'abc',
+    '-1',
+    '1.5',
+    '1e3',
+    ' 12',
+    '4294967296',
+  ])('rejects %p', (text) => {
+    expect(parseSeed(text)).toBeUndefined()
+  })
+})
+
+describe('getSeedFromLocation', () => {
+  const at = (search: string) => ({ search } as Location)
+
+  it('reads the seed parameter', () => {
+    expect(getSeedFromLocation(at('?seed=99&shape=stars'))).toBe(99)
+  })
+
+  it('ignores a missing or malformed seed', () => {
+    expect(getSeedFromLocation(at(''))).toBeUndefined()
+    expect(getSeedFromLocation(at('?seed=nope'))).toBeUndefined()
+    expect(getSeedFromLocation(at('?seed=99999999999'))).toBeUndefined()
+  })
+})
@@ -0,0 +1,31 @@
+export type Random = () => number
+
+// Mulberry32, see https://gist.github.com/tommyettinger/46a874533244883189143505d203312c
+// Small, fast and good enough for shapes. Returns numbers in [0, 1) like Math.random.
+export function makeSeededRandom(seed: number): Random {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function makeSeed(): number {
+  return Math.floor(Math.random() * 4294967296)
+}
+
+export function parseSeed(text: string | null | undefined): number | undefined {
+  if (!text || !/^\d+$/.test(text)) {
+    return undefined
+  }
+
+  const seed = Number(text)
+  return seed < 4294967296 ? seed : undefined
+}
+
+export function getSeedFromLocation(location: Location): number | undefined {
+  return parseSeed(new URLSearchParams(location.search).get('seed'))
+}
@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+import { Mask } from './geometry'
+import { fillPolygons, floodFill, makeMask, resampleMask } from './raster'
+
+// Masks drawn as rows of '#' for set pixels and '.' for blank ones
+function parseMask(rows: string[]): Mask {
+  const mask = makeMask({ width: rows[0].length, height: rows.length })
+  rows.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      mask.data[y * mask.width + x] = row[x] === '#' ? 1 : 0
+    }
+  })
+  return mask
+}
+
+function printMask(mask: Mask): string[] {
+  const rows = []
+  for (let y = 0; y < mask.height; y++) {
+    let row = ''
+    for (let x = 0; x < mask.width; x++) {
+      row += mask.data[y * mask.width + x] ? '#' : '.'
+    }
+    rows.push(row)
+  }
+  return rows
+}
+
+const square = (x: number, y: number, size: number, clockwise = true) => {
+  const points = [
+    { x, y },
+    { x: x + size, y },
+    { x: x + size, y: y + size },
+    { x, y: y + size },
+  ]
+  return clockwise ? points : points.reverse()
+}
+
+describe('fillPolygons', () => {
+  it('fills the pixels whose centers are inside', () => {
+    const mask = makeMask({ width: 6, height: 5 })
+    fillPolygons(mask, [square(1, 1, 3)])
+    expect(printMask(mask)).toEqual([
+      '......',
+      '.###..',
+      '.###..',
+      '.###..',
+      '......',
+    ])
+  })
+
+  it('fills a hole wound the same way with nonzero', () => {
+    const mask = makeMask({ width: 7, height: 7 })
+    fillPolygons(mask, [square(1, 1, 5), square(2, 2, 3)], 'nonzero')
+    expect(printMask(mask)).toEqual([
+      '.......',
+      '.#####.',
+      '.#####.',
+      '.#####.',
+      '.#####.',
+      '.#####.',
+      '.......',
+    ])
+  })
+
+  it('leaves a hole wound the other way blank with nonzero', () => {
+    const mask = makeMask({ width: 7, height: 7 })
+    fillPolygons(mask, [square(1, 1, 5), square(2, 2, 3, false)], 'nonzero')
+    expect(printMask(mask)).toEqual([
+      '.......',
+      '.#####.',
+      '.#...#.',
+      '.#...#.',
+      '.#...#.',
+      '.#####.',
+      '.......',
+    ])
+  })
+
+  it('leaves a hole blank either way with evenodd', () => {
+    const mask = makeMask({ width: 7, height: 7 })
+    fillPolygons(mask, [square(1, 1, 5), square(2, 2, 3)], 'evenodd')
+    expect(printMask(mask)).toEqual([
+      '.......',
+      '.#####.',
+      '.#...#.',
+      '.#...#.',
+      '.#...#.',
+      '.#####.',
+      '.......',
+    ])
+  })
+})
+
+describe('resampleMask', () => {
+  it('takes the nearest pixel when shrinking', () => {
+    const mask = parseMask(['....', '.##.', '.##.', '....'])
+    expect(printMask(resampleMask(mask, { width: 2, height: 2 }))).toEqual([
+      '#.',
+      '..',
+    ])
+  })
+
+  it('repeats pixels when growing', () => {
+    const mask = parseMask(['#.', '..'])
+    expect(printMask(resampleMask(mask, { width: 4, height: 4 }))).toEqual([
+      '##..',
+      '##..',
+      '....',
+      '....',
+    ])
+  })
+})
+
+describe('floodFill', () => {
+  it('fills an enclosed region', () => {
+    const mask = parseMask([
+      '......',
+      '.####.',
+      '.#..#.',
+      '.#..#.',
+      '.####.',
+      '......',
+    ])
+    expect(printMask(floodFill(mask, { x: 2.5, y: 2.5 })!)).toEqual([
+      '......',
+      '......',
+      '..##..',
+      '..##..',
+      '......',
+      '......',
+    ])
+  })
+
+  it("doesn't leak through diagonal gaps", () => {
+    const mask = parseMask([
+      '......',
+      '..##..',
+      '.#..#.',
+      '.#..#.',
+      '..##..',
+      '......',
+    ])
+    expect(floodFill(mask, { x: 2, y: 2 })).toBeDefined()
+  })
+
+  it('fills nothing when the region reaches the edge', () => {
+    const mask = parseMask([
+      '......',
+      '.####.',
+      '.#..#.',
+      '.#....',
+      '.####.',
+      '......',
+    ])
+    expect(floodFill(mask, { x: 2, y: 2 })).toBeUndefined()
+  })
+
+  it('fills nothing when starting on ink or outside the mask', () => {
+    const mask = parseMask(['...', '.#.', '...'])
+    expect(floodFill(mask, { x: 1, y: 1 })).toBeUndefined()
+    expect(floodFill(mask, { x: -1, y: 1 })).toBeUndefined()
+    expect(floodFill(mask, { x: 1, y: 3 })).toBeUndefined()
+  })
+})
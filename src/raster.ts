@@ -0,0 +1,341 @@
+import { Curve, Mask, Point, Size } from './geometry'
+
+export function makeMask(size: Size): Mask {
+  const width = Math.max(0, Math.floor(size.width))
+  const height = Math.max(0, Math.floor(size.height))
+  return { width, height, data: new Uint8Array(width * height) }
+}
+
+export function flattenCurves(curves: Curve[]): Point[] {
+  if (!curves.length) {
+    return []
+  }
+
+  const points: Point[] = [curves[0].from]
+  for (const { from, control, to } of curves) {
+    const length =
+      Math.hypot(control.x - from.x, control.y - from.y) +
+      Math.hypot(to.x - control.x, to.y - control.y)
+    const steps = Math.min(32, Math.max(1, Math.ceil(length / 4)))
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps
+      const u = 1 - t
+      points.push({
+        x: u * u * from.x + 2 * u * t * control.x + t * t * to.x,
+        y: u * u * from.y + 2 * u * t * control.y + t * t * to.y,
+      })
+    }
+  }
+
+  return points
+}
+
+type Crossing = { x: number; winding: number }
+
+function addCrossings(
+  crossings: Crossing[],
+  polygon: Point[],
+  sampleY: number
+) {
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i]
+    const b = polygon[(i + 1) % polygon.length]
+    if (a.y === b.y) {
+      continue
+    }
+
+    const upward = a.y < b.y
+    const [low, high] = upward ? [a, b] : [b, a]
+    if (sampleY < low.y || sampleY >= high.y) {
+      continue
+    }
+
+    const x = low.x + ((sampleY - low.y) / (high.y - low.y)) * (high.x - low.x)
+    crossings.push({ x, winding: upward ? 1 : -1 })
+  }
+}
+
+// Scanline fill of one or more polygons, by the same rules as the canvas
+export function fillPolygons(
+  mask: Mask,
+  polygons: Point[][],
+  fillRule: 'nonzero' | 'evenodd' = 'nonzero'
+) {
+  const { width, height, data } = mask
+  const crossings: Crossing[] = []
+
+  for (let y = 0; y < height; y++) {
+    crossings.length = 0
+    for (const polygon of polygons) {
+      addCrossings(crossings, polygon, y + 0.5)
+    }
+
+    crossings.sort((a, b) => a.x - b.x)
+
+    let winding = 0
+    for (let i = 0; i < crossings.length - 1; i++) {
+      winding += fillRule === 'evenodd' ? 1 : crossings[i].winding
+      const inside = fillRule === 'evenodd' ? winding % 2 === 1 : winding !== 0
+      if (!inside) {
+        continue
+      }
+
+      const start = Math.max(0, Math.ceil(crossings[i].x - 0.5))
+      const end = Math.min(width - 1, Math.ceil(crossings[i + 1].x - 0.5) - 1)
+      const row = y * width
+      for (let x = start; x <= end; x++) {
+        data[row + x] = 1
+      }
+    }
+  }
+}
+
+// Fills the blank region around the start point, unless it reaches the edge
+// of the mask. Then the region isn't enclosed and nothing is filled.
+export function floodFill(mask: Mask, start: Point): Mask | undefined {
+  const { width, height, data } = mask
+  const startX = Math.floor(start.x)
+  const startY = Math.floor(start.y)
+  if (
+    startX < 0 ||
+    startY < 0 ||
+    startX >= width ||
+    startY >= height ||
+    data[startY * width + startX]
+  ) {
+    return undefined
+  }
+
+  const region = makeMask(mask)
+  const stack = [startY * width + startX]
+  region.data[stack[0]] = 1
+  while (stack.length) {
+    const i = stack.pop()!
+    const x = i % width
+    const y = (i - x) / width
+    if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+      return undefined
+    }
+
+    for (const neighbor of [i - 1, i + 1, i - width, i + width]) {
+      if (!data[neighbor] && !region.data[neighbor]) {
+        region.data[neighbor] = 1
+        stack.push(neighbor)
+      }
+    }
+  }
+
+  return region
+}
+
+export function mergeMask(mask: Mask, other: Mask) {
+  for (let i = 0; i < mask.data.length; i++) {
+    if (other.data[i]) {
+      mask.data[i] = 1
+    }
+  }
+}
+
+// The nearest pixel of a mask for each pixel center of another size
+export function resampleMask(mask: Mask, size: Size): Mask {
+  const resampled = makeMask(size)
+  const scaleX = mask.width / resampled.width
+  const scaleY = mask.height / resampled.height
+  for (let y = 0; y < resampled.height; y++) {
+    const row = Math.floor((y + 0.5) * scaleY) * mask.width
+    for (let x = 0; x < resampled.width; x++) {
+      resampled.data[y * resampled.width + x] =
+        mask.data[row + Math.floor((x + 0.5) * scaleX)]
+    }
+  }
+
+  return resampled
+}
+
+export function growMask(mask: Mask, pixels: number) {
+  const { width, height, data } = mask
+  for (let step = 0; step < pixels; step++) {
+    const previous = data.slice()
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x
+        if (
+          !previous[i] &&
+          ((x > 0 && previous[i - 1]) ||
+            (x < width - 1 && previous[i + 1]) ||
+            (y > 0 && previous[i - width]) ||
+            (y < height - 1 && previous[i + width]))
+        ) {
+          data[i] = 1
+        }
+      }
+    }
+  }
+}
+
+// Strokes paint a value of 1 by default, 0 erases
+export function fillCircle(
+  mask: Mask,
+  center: Point,
+  radius: number,
+  value = 1
+) {
+  strokeSegment(mask, center, center, radius, value)
+}
+
+// Stroke with round caps and joins, every segment being a capsule
+export function strokePolyline(
+  mask: Mask,
+  points: Point[],
+  lineWidth: number,
+  value = 1
+) {
+  const radius = lineWidth / 2
+  if (points.length === 1) {
+    fillCircle(mask, points[0], radius, value)
+    return
+  }
+
+  for (let i = 0; i < points.length - 1; i++) {
+    strokeSegment(mask, points[i], points[i + 1], radius, value)
+  }
+}
+
+function strokeSegment(
+  mask: Mask,
+  a: Point,
+  b: Point,
+  radius: number,
+  value: number
+) {
+  const { width, height, data } = mask
+  const minX = Math.max(0, Math.floor(Math.min(a.x, b.x) - radius))
+  const maxX = Math.min(width - 1, Math.ceil(Math.max(a.x, b.x) + radius))
+  const minY = Math.max(0, Math.floor(Math.min(a.y, b.y) - radius))
+  const maxY = Math.min(height - 1, Math.ceil(Math.max(a.y, b.y) + radius))
+
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  const radiusSquared = radius * radius
+
+  for (let y = minY; y <= maxY; y++) {
+    const py = y + 0.5 - a.y
+    for (let x = minX; x <= maxX; x++) {
+      const px = x + 0.5 - a.x
+      const t =
+        lengthSquared === 0
+          ? 0
+          : Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSquared))
+      const distX = px - t * dx
+      const distY = py - t * dy
+      if (distX * distX + distY * distY <= radiusSquared) {
+        data[y * width + x] = value
+      }
+    }
+  }
+}
+
+// The pixels of the mask that touch a pixel outside it or the mask's edge
+export function getMaskBoundary(mask: Mask): Mask {
+  const { width, height, data } = mask
+  const boundary = makeMask(mask)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      if (
+        data[i] &&
+        (x === 0 ||
+          y === 0 ||
+          x === width - 1 ||
+          y === height - 1 ||
+          !data[i - 1] ||
+          !data[i + 1] ||
+          !data[i - width] ||
+          !data[i + width])
+      ) {
+        boundary.data[i] = 1
+      }
+    }
+  }
+
+  return boundary
+}
+
+// Squared distance from every pixel to the nearest pixel in the mask, using
+// the separable algorithm from Felzenszwalb and Huttenlocher's "Distance
+// Transforms of Sampled Functions"
+export function getSquaredDistanceField(mask: Mask): Float64Array {
+  const { width, height, data } = mask
+  const field = new Float64Array(width * height)
+  for (let i = 0; i < data.length; i++) {
+    field[i] = data[i] ? 0 : Infinity
+  }
+
+  const length = Math.max(width, height)
+  const f = new Float64Array(length)
+  const d = new Float64Array(length)
+  const v = new Int32Array(length)
+  const z = new Float64Array(length + 1)
+
+  const transform = (n: number) => {
+    let k = 0
+    v[0] = 0
+    z[0] = -Infinity
+    z[1] = Infinity
+    for (let q = 1; q < n; q++) {
+      if (f[q] === Infinity) {
+        continue
+      }
+
+      if (f[v[k]] === Infinity) {
+        v[k] = q
+        continue
+      }
+
+      let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k])
+      while (s <= z[k]) {
+        k--
+        s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k])
+      }
+
+      k++
+      v[k] = q
+      z[k] = s
+      z[k + 1] = Infinity
+    }
+
+    k = 0
+    for (let q = 0; q < n; q++) {
+      while (z[k + 1] < q) {
+        k++
+      }
+
+      d[q] = (q - v[k]) * (q - v[k]) + f[v[k]]
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      f[y] = field[y * width + x]
+    }
+
+    transform(height)
+    for (let y = 0; y < height; y++) {
+      field[y * width + x] = d[y]
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      f[x] = field[y * width + x]
+    }
+
+    transform(width)
+    for (let x = 0; x < width; x++) {
+      field[y * width + x] = d[x]
+    }
+  }
+
+  return field
+}
@@ -0,0 +1,65 @@
+export type RevealStyleId = 'fade' | 'flash' | 'erase' | 'peek'
+
+export type RevealStyle = {
+  id: RevealStyleId
+  label: string
+  description: string
+}
+
+export const peekLength = 1000
+export const peekCost = 5
+
+export const revealStyles: RevealStyle[] = [
+  {
+    id: 'fade',
+    label: 'Fade',
+    description: 'The shape fades away.',
+  },
+  {
+    id: 'flash',
+    label: 'Flash',
+    description: 'The shape shows in full, then vanishes at once.',
+  },
+  {
+    id: 'erase',
+    label: 'Erase',
+    description: 'The outline is erased bit by bit along its length.',
+  },
+  {
+    id: 'peek',
+    label: 'Peek',
+    description: `The shape flashes, and holding space or the Peek button shows it again for a second, at a cost of ${peekCost} points a peek.`,
+  },
+]
+
+export function getRevealStyle(id: RevealStyleId): RevealStyle {
+  return revealStyles.find((style) => style.id === id) || revealStyles[0]
+}
+
+// How the shape is shown at the start of a game, for milliseconds
+export type Reveal = {
+  style: RevealStyleId
+  time: number
+}
+
+export const defaultReveal: Reveal = { style: 'fade', time: 2 * 1000 }
+
+export function isDefaultReveal(reveal: Reveal): boolean {
+  return (
+    reveal.style === defaultReveal.style && reveal.time === defaultReveal.time
+  )
+}
+
+// The whole frame's opacity, the outline erasing itself is drawn separately
+export function getRevealOpacity(reveal: Reveal, elapsed: number): number {
+  if (reveal.style === 'fade') {
+    return Math.max(0, (reveal.time - elapsed) / reveal.time)
+  }
+
+  return elapsed < reveal.time ? 1 : 0
+}
+
+// How much of the outline is erased, from 0 to 1
+export function getErasedFraction(reveal: Reveal, elapsed: number): number {
+  return reveal.style === 'erase' ? Math.min(1, elapsed / reveal.time) : 0
+}
@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ */
+import { getLineWidthForCanvasSize } from './draw'
+import { Mask, Point, Shape, Stroke } from './geometry'
+import { makeMask } from './raster'
+import {
+  classifyPixels,
+  countPixels,
+  PixelClass,
+  scoreDrawing,
+} from './scoring'
+
+const maskOf = (width: number, values: number[]): Mask => ({
+  width,
+  height: values.length / width,
+  data: Uint8Array.from(values),
+})
+
+describe('classifyPixels', () => {
+  it('classifies each pixel by the target and ink under it', () => {
+    const target = maskOf(2, [1, 1, 0, 0])
+    const ink = maskOf(2, [1, 0, 1, 0])
+    expect(Array.from(classifyPixels(target, ink).data)).toEqual([
+      PixelClass.Filled,
+      PixelClass.UnderFilled,
+      PixelClass.Overfilled,
+      PixelClass.Blank,
+    ])
+  })
+})
+
+describe('countPixels', () => {
+  it('counts each class', () => {
+    const target = maskOf(3, [1, 1, 1, 1, 0, 0])
+    const ink = maskOf(3, [1, 1, 0, 0, 1, 0])
+    expect(countPixels(classifyPixels(target, ink))).toEqual({
+      pixelsFilled: 2,
+      pixelsOverfilled: 1,
+      pixelsUnderFilled: 2,
+    })
+  })
+
+  it('counts nothing for blank masks', () => {
+    const blank = maskOf(2, [0, 0, 0, 0])
+    expect(countPixels(classifyPixels(blank, blank))).toEqual({
+      pixelsFilled: 0,
+      pixelsOverfilled: 0,
+      pixelsUnderFilled: 0,
+    })
+  })
+})
+
+describe('scoreDrawing', () => {
+  // In CSS pixels
+  const shape: Shape = {
+    points: [
+      { x: 20, y: 20 },
+      { x: 100, y: 30 },
+      { x: 90, y: 100 },
+      { x: 30, y: 80 },
+    ],
+  }
+  const strokes: Stroke[] = [
+    {
+      tool: 'brush',
+      size: 2,
+      points: [
+        { x: 25, y: 30, time: 0 },
+        { x: 60, y: 40, time: 10 },
+        { x: 95, y: 50, time: 20 },
+        { x: 70, y: 70, time: 30 },
+        { x: 40, y: 90, time: 40 },
+        { x: 20, y: 110, time: 50 },
+      ],
+    },
+    { tool: 'brush', size: 1, points: [{ x: 60, y: 60, time: 60 }] },
+  ]
+
+  const scaleShape = (scale: number): Shape => ({
+    points: shape.points.map((p) => scalePoint(p, scale)),
+  })
+  const scaleStrokes = (scale: number): Stroke[] =>
+    strokes.map((stroke) => ({
+      ...stroke,
+      points: stroke.points.map((p) => scalePoint(p, scale)),
+    }))
+  const scalePoint = <P extends Point>(p: P, scale: number): P => ({
+    ...p,
+    x: p.x * scale,
+    y: p.y * scale,
+  })
+
+  // Drawn at device resolution in an area of cssSize CSS pixels, with the
+  // line width the game picks for it
+  const scoreAt = (pixelRatio: number, cssSize = 120) => {
+    const size = { width: cssSize * pixelRatio, height: cssSize * pixelRatio }
+    const { pixelsFilled, pixelsOverfilled, pixelsUnderFilled } = scoreDrawing({
+      shape: scaleShape(pixelRatio),
+      strokes: scaleStrokes(pixelRatio),
+      size,
+      pixelRatio,
+      lineWidth: getLineWidthForCanvasSize(size, pixelRatio, 1),
+    })
+    return { pixelsFilled, pixelsOverfilled, pixelsUnderFilled }
+  }
+
+  it('scores a fill as the region filled on screen', () => {
+    const region = makeMask({ width: 40, height: 40 })
+    for (let y = 10; y < 30; y++) {
+      region.data.fill(1, y * 40 + 10, y * 40 + 30)
+    }
+
+    const result = scoreDrawing({
+      shape: { points: [] },
+      strokes: [{ tool: 'fill', points: [{ x: 20, y: 20, time: 0 }], region }],
+      size: { width: 40, height: 40 },
+      pixelRatio: 2,
+      lineWidth: 20,
+    })
+    expect(result.pixelsOverfilled).toBe(100)
+  })
+
+  it('scores the same strokes the same at any pixel ratio', () => {
+    const atOne = scoreAt(1)
+    expect(atOne.pixelsFilled).toBeGreaterThan(0)
+    expect(atOne.pixelsOverfilled).toBeGreaterThan(0)
+    expect(atOne.pixelsUnderFilled).toBeGreaterThan(0)
+    expect(scoreAt(2)).toEqual(atOne)
+    expect(scoreAt(3)).toEqual(atOne)
+  })
+
+  it('picks the same line width at any pixel ratio', () => {
+    // Wide enough for the thicker lines of larger screens
+    const atOne = scoreAt(1, 600)
+    expect(atOne).not.toEqual(scoreAt(1))
+    expect(scoreAt(2, 600)).toEqual(atOne)
+    expect(scoreAt(3, 600)).toEqual(atOne)
+  })
+})
@@ -0,0 +1,232 @@
+import {
+  getInkCurves,
+  getPressureScale,
+  getShapeContours,
+  getStrokeChunks,
+  Mask,
+  Point,
+  Shape,
+  Size,
+  Stroke,
+} from './geometry'
+import {
+  fillCircle,
+  fillPolygons,
+  flattenCurves,
+  getSquaredDistanceField,
+  makeMask,
+  mergeMask,
+  resampleMask,
+  strokePolyline,
+} from './raster'
+
+// Everything is given in canvas pixels. Scoring happens on a grid of CSS
+// pixels instead, so the same drawing scores the same at any pixel ratio.
+export type ScoringInput = {
+  shape: Shape
+  strokes: Stroke[]
+  size: Size
+  pixelRatio: number
+  // The target's outline width, strokes are a multiple of it
+  lineWidth: number
+}
+
+export type ScoreBreakdown = {
+  pixelsFilled: number
+  pixelsOverfilled: number
+  pixelsUnderFilled: number
+}
+
+export const PixelClass = {
+  Blank: 0,
+  Filled: 1,
+  Overfilled: 2,
+  UnderFilled: 3,
+} as const
+
+// One PixelClass per pixel, derived from the target and ink layers
+export type Classification = Mask
+
+export type ScoringResult = ScoreBreakdown & {
+  classification: Classification
+  target: Mask
+  ink: Mask
+}
+
+export function makeShapeMask(size: Size, shape: Shape, lineWidth: number) {
+  const mask = makeMask(size)
+  if (!shape.points.length) {
+    return mask
+  }
+
+  const contours = getShapeContours(shape).map(flattenCurves)
+  fillPolygons(mask, contours, 'evenodd')
+  for (const contour of contours) {
+    strokePolyline(mask, contour, lineWidth)
+  }
+
+  return mask
+}
+
+export function makeInkMask(size: Size, strokes: Stroke[], lineWidth: number) {
+  const mask = makeMask(size)
+  for (const stroke of strokes) {
+    // The region as filled on screen, as filling again at another
+    // resolution could find it open or closed where it wasn't
+    if (stroke.tool === 'fill') {
+      mergeMask(mask, resampleMask(stroke.region, mask))
+      continue
+    }
+
+    const value = stroke.tool === 'eraser' ? 0 : 1
+    for (const chunk of getStrokeChunks(stroke.points)) {
+      const strokeWidth = lineWidth * stroke.size * getPressureScale(chunk)
+      if (chunk.length < 3) {
+        fillCircle(mask, chunk[0], strokeWidth / 2, value)
+      } else {
+        strokePolyline(
+          mask,
+          flattenCurves(getInkCurves(chunk)),
+          strokeWidth,
+          value
+        )
+      }
+    }
+  }
+
+  return mask
+}
+
+export function classifyPixels(target: Mask, ink: Mask): Classification {
+  const classification = makeMask(target)
+  const { data } = classification
+  for (let i = 0; i < data.length; i++) {
+    if (target.data[i]) {
+      data[i] = ink.data[i] ? PixelClass.Filled : PixelClass.UnderFilled
+    } else if (ink.data[i]) {
+      data[i] = PixelClass.Overfilled
+    }
+  }
+
+  return classification
+}
+
+export function countPixels(classification: Classification): ScoreBreakdown {
+  let pixelsFilled = 0
+  let pixelsOverfilled = 0
+  let pixelsUnderFilled = 0
+  for (let i = 0; i < classification.data.length; i++) {
+    switch (classification.data[i]) {
+      case PixelClass.Filled:
+        pixelsFilled++
+        break
+      case PixelClass.Overfilled:
+        pixelsOverfilled++
+        break
+      case PixelClass.UnderFilled:
+        pixelsUnderFilled++
+        break
+    }
+  }
+
+  return { pixelsFilled, pixelsOverfilled, pixelsUnderFilled }
+}
+
+const scalePoint = <P extends Point>(p: P, scale: number): P => ({
+  ...p,
+  x: p.x * scale,
+  y: p.y * scale,
+})
+
+function scaleInput({
+  shape,
+  strokes,
+  size,
+  pixelRatio,
+  lineWidth,
+}: ScoringInput) {
+  const scale = 1 / pixelRatio
+  return {
+    shape: {
+      points: shape.points.map((p) => scalePoint(p, scale)),
+      holes:
+        shape.holes &&
+        shape.holes.map((hole) => hole.map((p) => scalePoint(p, scale))),
+    },
+    strokes: strokes.map((stroke) => ({
+      ...stroke,
+      points: stroke.points.map((p) => scalePoint(p, scale)),
+    })),
+    size: { width: size.width * scale, height: size.height * scale },
+    lineWidth: lineWidth * scale,
+  }
+}
+
+export function scoreDrawing(input: ScoringInput): ScoringResult {
+  const { shape, strokes, size, lineWidth } = scaleInput(input)
+  const target = makeShapeMask(size, shape, lineWidth)
+  const ink = makeInkMask(size, strokes, lineWidth)
+
+  const classification = classifyPixels(target, ink)
+  return { ...countPixels(classification), classification, target, ink }
+}
+
+// Percentages, with the distance in CSS pixels
+export type TracingResult = {
+  // How much of the outline has ink near it
+  coverage: number
+  // How much of the ink is near the outline
+  precision: number
+  meanDistance: number
+  score: number
+}
+
+// Tracing is scored against the outline as drawn, and ink counts as near
+// it within one outline width of the drawn line
+export function scoreTracing(input: ScoringInput): TracingResult {
+  const { shape, strokes, size, lineWidth } = scaleInput(input)
+  const outline = makeMask(size)
+  for (const contour of getShapeContours(shape).map(flattenCurves)) {
+    strokePolyline(outline, contour, lineWidth)
+  }
+
+  const ink = makeInkMask(size, strokes, lineWidth)
+  const toOutline = getSquaredDistanceField(outline)
+  const toInk = getSquaredDistanceField(ink)
+  const tolerance = lineWidth * lineWidth
+
+  let outlinePixels = 0
+  let outlineCovered = 0
+  let inkPixels = 0
+  let inkNear = 0
+  let totalDistance = 0
+  for (let i = 0; i < outline.data.length; i++) {
+    if (outline.data[i]) {
+      outlinePixels++
+      if (toInk[i] <= tolerance) {
+        outlineCovered++
+      }
+    }
+
+    if (ink.data[i]) {
+      inkPixels++
+      totalDistance += Math.sqrt(toOutline[i])
+      if (toOutline[i] <= tolerance) {
+        inkNear++
+      }
+    }
+  }
+
+  const coverage = outlinePixels ? (100 * outlineCovered) / outlinePixels : 0
+  const precision = inkPixels ? (100 * inkNear) / inkPixels : 0
+  return {
+    coverage,
+    precision,
+    meanDistance: inkPixels ? totalDistance / inkPixels : Infinity,
+    // The harmonic mean, so neither can make up for lacking the other
+    score:
+      coverage + precision
+        ? (2 * coverage * precision) / (coverage + precision)
+        : 0,
+  }
+}
@@ -0,0 +1,133 @@
+import { defaultInkColor, LineStyle } from './draw'
+import { defaultPenaltyFactor } from './metrics'
+import { defaultReveal } from './reveal'
+import { defaultMinPoints } from './shapes'
+
+// Gameplay values the player can tune. Any number but the default is played
+// under custom rules, and labelled as such.
+export type Settings = LineStyle & {
+  penaltyFactor: number
+  // Milliseconds the shape is shown for at the start
+  revealTime: number
+  minPoints: number
+}
+
+export type NumberSettingId = Exclude<keyof Settings, 'inkColor'>
+
+export type NumberSetting = {
+  id: NumberSettingId
+  label: string
+  description: string
+  min: number
+  max: number
+  step: number
+  format: (value: number) => string
+}
+
+export const defaultSettings: Settings = {
+  penaltyFactor: defaultPenaltyFactor,
+  revealTime: defaultReveal.time,
+  minPoints: defaultMinPoints,
+  inkColor: defaultInkColor,
+  lineWidthScale: 1,
+}
+
+export const numberSettings: NumberSetting[] = [
+  {
+    id: 'penaltyFactor',
+    label: 'Penalty',
+    description: 'How many points each pixel colored outside the lines costs',
+    min: 0,
+    max: 20,
+    step: 1,
+    format: (value) => `${value}×`,
+  },
+  {
+    id: 'revealTime',
+    label: 'Reveal time',
+    description: 'How long the shape shows before it goes away',
+    min: 500,
+    max: 5000,
+    step: 500,
+    format: (value) => `${value / 1000}s`,
+  },
+  {
+    id: 'minPoints',
+    label: 'Shape points',
+    description: 'Classic shapes pick from this many to five more points',
+    min: 3,
+    max: 25,
+    step: 1,
+    format: (value) => `${value}–${value + 5}`,
+  },
+  {
+    id: 'lineWidthScale',
+    label: 'Line width',
+    description: 'The width of the outline and of every brush size',
+    min: 0.5,
+    max: 2,
+    step: 0.25,
+    format: (value) => `${value}×`,
+  },
+]
+
+// Ink color is only cosmetic, so it doesn't make the rules custom
+export function isStandardSettings(settings: Settings): boolean {
+  return numberSettings.every(({ id }) => settings[id] === defaultSettings[id])
+}
+
+export function clampSetting(setting: NumberSetting, value: number): number {
+  if (!Number.isFinite(value)) {
+    return defaultSettings[setting.id]
+  }
+
+  const stepped =
+    Math.round((value - setting.min) / setting.step) * setting.step +
+    setting.min
+  return Math.min(setting.max, Math.max(setting.min, stepped))
+}
+
+const storageKey = 'color-blind:settings'
+
+// Stored settings are checked, as they may come from an older version
+export function loadSettings(): Settings {
+  try {
+    const json = window.localStorage.getItem(storageKey)
+    const stored: Partial<Settings> = json ? JSON.parse(json) : {}
+    const settings = { ...defaultSettings }
+    for (const setting of numberSettings) {
+      if (typeof stored[setting.id] === 'number') {
+        settings[setting.id] = clampSetting(setting, stored[setting.id]!)
+      }
+    }
+
+    if (
+      typeof stored.inkColor === 'string' &&
+      /^#[0-9a-f]{6}$/i.test(stored.inkColor)
+    ) {
+      settings.inkColor = stored.inkColor
+    }
+
+    return settings
+  } catch {
+    return defaultSettings
+  }
+}
+
+// Seed links carry the shape points when they aren't the default, so the
+// seed makes the same shape for anyone
+export function getMinPointsFromLocation(location: Location): number {
+  const value = new URLSearchParams(location.search).get('points')
+  const setting = numberSettings.find((setting) => setting.id === 'minPoints')!
+  return value === null
+    ? defaultMinPoints
+    : clampSetting(setting, Number(value))
+}
+
+export function saveSettings(settings: Settings) {
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(settings))
+  } catch {
+    // Storage may be full or disabled, the settings still hold for this session
+  }
+}
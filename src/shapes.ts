@@ -0,0 +1,519 @@
+import { getFitTransform, Point, Shape, Size } from './geometry'
+import { Random } from './random'
+
+export type ShapeFamilyId =
+  | 'classic'
+  | 'polygon'
+  | 'irregular'
+  | 'star'
+  | 'blob'
+  | 'concave'
+  | 'holes'
+  | 'glyph'
+
+export type ShapeFamily = {
+  id: ShapeFamilyId
+  label: string
+  // Only classic shapes are made of a number of random points
+  generate: (viewPort: Size, random: Random, minPoints: number) => Shape
+}
+
+function makeRandomPoint(viewPort: Size, random: Random): Point {
+  return {
+    x: Math.floor(random() * (viewPort.width - 20)) + 10,
+    y: Math.floor(random() * (viewPort.height - 20)) + 10,
+  }
+}
+
+function pointComparator(a: Point, b: Point): number {
+  if (a.x < b.x) {
+    return -1
+  }
+
+  if (a.x > b.x) {
+    return +1
+  }
+
+  if (a.y < b.y) {
+    return -1
+  }
+
+  if (a.y > b.y) {
+    return +1
+  }
+
+  return 0
+}
+
+// Modernized from https://www.nayuki.io/res/convex-hull-algorithm/convex-hull.ts
+function makeHullPresorted(points: Readonly<Array<Point>>): Array<Point> {
+  if (points.length <= 1) return points.slice()
+
+  // Andrew's monotone chain algorithm. Positive y coordinates correspond to "up"
+  // as per the mathematical convention, instead of "down" as per the computer
+  // graphics convention. This doesn't affect the correctness of the result.
+
+  let upperHull: Array<Point> = []
+  for (let i = 0; i < points.length; i++) {
+    const p: Point = points[i]
+    while (upperHull.length >= 2) {
+      const q: Point = upperHull[upperHull.length - 1]
+      const r: Point = upperHull[upperHull.length - 2]
+      if ((q.x - r.x) * (p.y - r.y) >= (q.y - r.y) * (p.x - r.x))
+        upperHull.pop()
+      else break
+    }
+    upperHull.push(p)
+  }
+  upperHull.pop()
+
+  let lowerHull: Array<Point> = []
+  for (let i = points.length - 1; i >= 0; i--) {
+    const p: Point = points[i]
+    while (lowerHull.length >= 2) {
+      const q: Point = lowerHull[lowerHull.length - 1]
+      const r: Point = lowerHull[lowerHull.length - 2]
+      if ((q.x - r.x) * (p.y - r.y) >= (q.y - r.y) * (p.x - r.x))
+        lowerHull.pop()
+      else break
+    }
+    lowerHull.push(p)
+  }
+  lowerHull.pop()
+
+  if (
+    upperHull.length === 1 &&
+    lowerHull.length === 1 &&
+    upperHull[0].x === lowerHull[0].x &&
+    upperHull[0].y === lowerHull[0].y
+  )
+    return upperHull
+  else return upperHull.concat(lowerHull)
+}
+
+function makeLines(points: Point[]): [Point, Point][] {
+  const lines: [Point, Point][] = []
+
+  const [start, ...rest] = points
+
+  for (let i = 0; i < points.length; i++) {
+    lines.push([points[i], rest[i]])
+  }
+
+  lines[points.length - 1][1] = start
+  return lines
+}
+
+// Classic shapes pick from this many to five more random points
+export const defaultMinPoints = 10
+
+function makeClassicShape(
+  viewPort: Size,
+  random: Random,
+  minPoints: number
+): Shape {
+  const randomPoints = []
+  const count = minPoints + Math.floor(random() * 6)
+  for (let i = 0; i < count; i++) {
+    randomPoints.push(makeRandomPoint(viewPort, random))
+  }
+
+  const hull = makeHullPresorted(randomPoints.sort(pointComparator))
+
+  const innerView = { width: viewPort.width / 4, height: viewPort.height / 4 }
+  const [top, bottom] = [
+    makeRandomPoint(innerView, random),
+    makeRandomPoint(innerView, random),
+  ]
+    .map((p, i) => ({
+      x: p.x + innerView.width * (i === 0 ? 0.75 : 1.25),
+      y: p.y + innerView.height * (i === 0 ? 0.75 : 1.25),
+    }))
+    .sort(pointComparator)
+
+  const a = Math.floor(random() * (hull.length / 2))
+  const b = Math.floor(random() * (hull.length / 2) + hull.length / 2)
+
+  hull.splice(a, 0, top)
+  hull.splice(b, 0, bottom)
+  const points = hull
+
+  return { points }
+}
+
+// Rejects shapes whose edges cross or whose corners crowd each other,
+// either of which makes them a guessing game rather than a memory game.
+function isWellSpaced(shape: Shape, viewPort: Size): boolean {
+  const contours = [shape.points, ...(shape.holes || [])]
+  const lines = contours.flatMap(makeLines)
+
+  if (
+    lines.some((line) =>
+      lines.some((l) =>
+        intersects(
+          line[0].x,
+          line[0].y,
+          line[1].x,
+          line[1].y,
+          l[0].x,
+          l[0].y,
+          l[1].x,
+          l[1].y
+        )
+      )
+    )
+  ) {
+    return false
+  }
+
+  const range = Math.min(viewPort.width, viewPort.height) / 10
+  const points = contours.flat()
+  if (points.some((a) => points.some((b) => a !== b && nearBy(a, b, range)))) {
+    return false
+  }
+
+  // Holes also need room between their corners and the outline around them
+  return contours.every((contour) =>
+    contours.every(
+      (other) =>
+        contour === other ||
+        contour.every((p) =>
+          makeLines(other).every(
+            ([a, b]) => getSegmentDistance(p, a, b) >= range
+          )
+        )
+    )
+  )
+}
+
+function getSegmentDistance(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared)
+        )
+  return Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy)
+}
+
+// On a very small draw area a family may never produce a well spaced shape,
+// so after enough attempts we fall back to a triangle, which always is.
+const maxAttempts = 100
+
+function generateWellSpaced(
+  viewPort: Size,
+  random: Random,
+  build: (viewPort: Size, random: Random) => Shape
+): Shape {
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const shape = build(viewPort, random)
+    if (isWellSpaced(shape, viewPort)) {
+      return shape
+    }
+  }
+
+  return makeFallbackTriangle(viewPort, random)
+}
+
+// Its corners are most of the area apart, far beyond the spacing checks
+function makeFallbackTriangle(viewPort: Size, random: Random): Shape {
+  const center = { x: viewPort.width / 2, y: viewPort.height / 2 }
+  const radius = Math.min(viewPort.width, viewPort.height) * 0.45
+  const angles = makeJitteredAngles(3, 0, random)
+  return {
+    points: makeRadialPoints(
+      center,
+      angles,
+      angles.map(() => radius)
+    ),
+  }
+}
+
+const randomInRange = (min: number, max: number, random: Random) =>
+  min + random() * (max - min)
+
+const randomIntInRange = (min: number, max: number, random: Random) =>
+  min + Math.floor(random() * (max - min + 1))
+
+// Room for the outline's line width around the edge of the draw area
+const edgeMargin = 20
+
+function getCenterAndRadius(viewPort: Size) {
+  return {
+    center: { x: viewPort.width / 2, y: viewPort.height / 2 },
+    radius: Math.min(viewPort.width, viewPort.height) / 2 - edgeMargin,
+  }
+}
+
+function makeRadialPoints(
+  center: Point,
+  angles: number[],
+  radii: number[]
+): Point[] {
+  return angles.map((angle, i) => ({
+    x: center.x + Math.cos(angle) * radii[i],
+    y: center.y + Math.sin(angle) * radii[i],
+  }))
+}
+
+function makeJitteredAngles(count: number, jitter: number, random: Random) {
+  const rotation = random() * Math.PI * 2
+  const step = (Math.PI * 2) / count
+  return Array.from(
+    { length: count },
+    (_, i) =>
+      rotation + i * step + randomInRange(-jitter, jitter, random) * step
+  )
+}
+
+function makeRegularPolygon(viewPort: Size, random: Random): Shape {
+  const { center, radius } = getCenterAndRadius(viewPort)
+  const count = randomIntInRange(3, 8, random)
+  const angles = makeJitteredAngles(count, 0, random)
+  return {
+    points: makeRadialPoints(
+      center,
+      angles,
+      angles.map(() => radius)
+    ),
+  }
+}
+
+function makeIrregularPolygon(viewPort: Size, random: Random): Shape {
+  const { center, radius } = getCenterAndRadius(viewPort)
+  const count = randomIntInRange(5, 9, random)
+  const angles = makeJitteredAngles(count, 0.35, random)
+  const radii = angles.map(() => randomInRange(0.5, 1, random) * radius)
+  return { points: makeRadialPoints(center, angles, radii) }
+}
+
+function makeStar(viewPort: Size, random: Random): Shape {
+  const { center, radius } = getCenterAndRadius(viewPort)
+  const tips = randomIntInRange(5, 8, random)
+  const innerRadius = randomInRange(0.4, 0.55, random) * radius
+  const angles = makeJitteredAngles(tips * 2, 0, random)
+  const radii = angles.map((_, i) => (i % 2 === 0 ? radius : innerRadius))
+  return { points: makeRadialPoints(center, angles, radii) }
+}
+
+function makeBlob(viewPort: Size, random: Random): Shape {
+  const { center, radius } = getCenterAndRadius(viewPort)
+  const count = randomIntInRange(8, 12, random)
+  const angles = makeJitteredAngles(count, 0.2, random)
+  const bumps = angles.map(() => randomInRange(0.6, 1, random))
+  // Averaging neighbors keeps the bumps gentle so the outline stays round
+  const radii = bumps.map(
+    (bump, i) =>
+      ((bumps[(i + count - 1) % count] + 2 * bump + bumps[(i + 1) % count]) /
+        4) *
+      radius
+  )
+  return { points: makeRadialPoints(center, angles, radii) }
+}
+
+function makeConcaveShape(viewPort: Size, random: Random): Shape {
+  const { center, radius } = getCenterAndRadius(viewPort)
+  const count = randomIntInRange(7, 10, random)
+  const angles = makeJitteredAngles(count, 0.15, random)
+  const radii = angles.map(() => randomInRange(0.85, 1, random) * radius)
+
+  // Pull a few non-adjacent corners deep toward the center
+  const notches = randomIntInRange(2, 3, random)
+  const start = Math.floor(random() * count)
+  const gap = Math.floor(count / notches)
+  for (let i = 0; i < notches; i++) {
+    radii[(start + i * gap) % count] = randomInRange(0.25, 0.4, random) * radius
+  }
+
+  return { points: makeRadialPoints(center, angles, radii) }
+}
+
+function makeShapeWithHole(viewPort: Size, random: Random): Shape {
+  const { center, radius } = getCenterAndRadius(viewPort)
+  const outerAngles = makeJitteredAngles(
+    randomIntInRange(8, 11, random),
+    0.2,
+    random
+  )
+  const outerRadii = outerAngles.map(
+    () => randomInRange(0.85, 1, random) * radius
+  )
+
+  const holeCenter = {
+    x: center.x + randomInRange(-0.1, 0.1, random) * radius,
+    y: center.y + randomInRange(-0.1, 0.1, random) * radius,
+  }
+  const holeAngles = makeJitteredAngles(
+    randomIntInRange(4, 6, random),
+    0.2,
+    random
+  )
+  const holeRadii = holeAngles.map(
+    () => randomInRange(0.3, 0.4, random) * radius
+  )
+
+  return {
+    points: makeRadialPoints(center, outerAngles, outerRadii),
+    holes: [makeRadialPoints(holeCenter, holeAngles, holeRadii)],
+  }
+}
+
+// Blocky capitals on a grid five units tall. Letters with counters (A, B, O…)
+// are left out since the smoothing would close them up.
+const glyphs = [
+  '0,0 1,0 1,4 4,4 4,5 0,5', // L
+  '0,0 5,0 5,1 3,1 3,5 2,5 2,1 0,1', // T
+  '0,0 4,0 4,1 1,1 1,2 3,2 3,3 1,3 1,4 4,4 4,5 0,5', // E
+  '0,0 4,0 4,1 1,1 1,2 3,2 3,3 1,3 1,5 0,5', // F
+  '0,0 1,0 1,2 3,2 3,0 4,0 4,5 3,5 3,3 1,3 1,5 0,5', // H
+  '0,0 1,0 1,4 3,4 3,0 4,0 4,5 0,5', // U
+  '0,0 4,0 4,1 1.5,4 4,4 4,5 0,5 0,4 2.5,1 0,1', // Z
+].map((glyph) =>
+  glyph.split(' ').map((pair) => {
+    const [x, y] = pair.split(',').map(Number)
+    return { x, y }
+  })
+)
+
+function makeGlyph(viewPort: Size, random: Random): Shape {
+  const glyph = glyphs[Math.floor(random() * glyphs.length)]
+  const skew = randomInRange(-0.15, 0.15, random)
+  const skewed = glyph.map(({ x, y }) => ({ x: x + skew * (2.5 - y), y }))
+
+  const minX = Math.min(...skewed.map((p) => p.x))
+  const maxX = Math.max(...skewed.map((p) => p.x))
+  const glyphSize = { width: maxX - minX, height: 5 }
+  const area = {
+    width: viewPort.width - edgeMargin * 2,
+    height: viewPort.height - edgeMargin * 2,
+  }
+  const scale = Math.min(
+    area.width / glyphSize.width,
+    area.height / glyphSize.height
+  )
+  const offsetX = (viewPort.width - glyphSize.width * scale) / 2
+  const offsetY = (viewPort.height - glyphSize.height * scale) / 2
+
+  return {
+    points: skewed.map((p) => ({
+      x: (p.x - minX) * scale + offsetX,
+      y: p.y * scale + offsetY,
+    })),
+  }
+}
+
+export const shapeFamilies: ShapeFamily[] = [
+  {
+    id: 'classic',
+    label: 'Classic',
+    generate: (viewPort, random, minPoints) =>
+      generateWellSpaced(viewPort, random, (viewPort, random) =>
+        makeClassicShape(viewPort, random, minPoints)
+      ),
+  },
+  {
+    id: 'polygon',
+    label: 'Regular polygons',
+    generate: (viewPort, random) =>
+      generateWellSpaced(viewPort, random, makeRegularPolygon),
+  },
+  {
+    id: 'irregular',
+    label: 'Irregular polygons',
+    generate: (viewPort, random) =>
+      generateWellSpaced(viewPort, random, makeIrregularPolygon),
+  },
+  {
+    id: 'star',
+    label: 'Stars',
+    generate: (viewPort, random) =>
+      generateWellSpaced(viewPort, random, makeStar),
+  },
+  {
+    id: 'blob',
+    label: 'Blobs',
+    generate: (viewPort, random) =>
+      generateWellSpaced(viewPort, random, makeBlob),
+  },
+  {
+    id: 'concave',
+    label: 'Concave',
+    generate: (viewPort, random) =>
+      generateWellSpaced(viewPort, random, makeConcaveShape),
+  },
+  {
+    id: 'holes',
+    label: 'With holes',
+    generate: (viewPort, random) =>
+      generateWellSpaced(viewPort, random, makeShapeWithHole),
+  },
+  {
+    id: 'glyph',
+    label: 'Letters',
+    generate: (viewPort, random) =>
+      generateWellSpaced(viewPort, random, makeGlyph),
+  },
+]
+
+export function getShapeFamily(id: string | null | undefined): ShapeFamily {
+  return shapeFamilies.find((family) => family.id === id) || shapeFamilies[0]
+}
+
+export function makeRandomShape(
+  viewPort: Size,
+  random: Random,
+  familyId: ShapeFamilyId = 'classic',
+  minPoints = defaultMinPoints
+): Shape {
+  return getShapeFamily(familyId).generate(viewPort, random, minPoints)
+}
+
+export function fitShapeToArea(shape: Shape, from: Size, to: Size): Shape {
+  const { scale, offsetX, offsetY } = getFitTransform(from, to)
+  const fit = (points: Point[]) =>
+    points.map((p) => ({
+      x: p.x * scale + offsetX,
+      y: p.y * scale + offsetY,
+    }))
+
+  return {
+    points: fit(shape.points),
+    holes: shape.holes && shape.holes.map(fit),
+  }
+}
+
+function nearBy(a: Point, b: Point, range: number) {
+  const distX = Math.abs(b.x - a.x)
+  const distY = Math.abs(b.y - a.y)
+  return distY < range && distX < range
+}
+
+// Gleaned from https://stackoverflow.com/a/24392281
+function intersects(
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  p: number,
+  q: number,
+  r: number,
+  s: number
+) {
+  var det, gamma, lambda
+  det = (c - a) * (s - q) - (r - p) * (d - b)
+  if (det === 0) {
+    return false
+  } else {
+    lambda = ((s - q) * (r - a) + (p - r) * (s - b)) / det
+    gamma = ((b - d) * (r - a) + (c - a) * (s - b)) / det
+    return 0 < lambda && lambda < 1 && 0 < gamma && gamma < 1
+  }
+}
+
+export function getShapeFamilyFromLocation(location: Location): ShapeFamilyId {
+  return getShapeFamily(new URLSearchParams(location.search).get('shape')).id
+}
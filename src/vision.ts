@@ -0,0 +1,133 @@
+import {
+  getDeltaE,
+  linearToSrgb,
+  makeRandomRgb,
+  Rgb,
+  rgbToLab,
+  srgbToLinear,
+  toHexColor,
+} from './color'
+import { Random } from './random'
+
+export type VisionId =
+  | 'normal'
+  | 'protanopia'
+  | 'deuteranopia'
+  | 'tritanopia'
+  | 'achromatopsia'
+
+export type Vision = {
+  id: VisionId
+  label: string
+  // Applied to linear RGB, row by row
+  matrix: number[][]
+}
+
+// The dichromacy matrices at full severity from Machado, Oliveira and
+// Fernandes, "A Physiologically-based Model for Simulation of Color Vision
+// Deficiency", and plain luminance for achromatopsia
+export const visions: Vision[] = [
+  {
+    id: 'normal',
+    label: 'Normal',
+    matrix: [
+      [1, 0, 0],
+      [0, 1, 0],
+      [0, 0, 1],
+    ],
+  },
+  {
+    id: 'protanopia',
+    label: 'Protanopia',
+    matrix: [
+      [0.152286, 1.052583, -0.204868],
+      [0.114503, 0.786281, 0.099216],
+      [-0.003882, -0.048116, 1.051998],
+    ],
+  },
+  {
+    id: 'deuteranopia',
+    label: 'Deuteranopia',
+    matrix: [
+      [0.367322, 0.860646, -0.227968],
+      [0.280085, 0.672501, 0.047413],
+      [-0.01182, 0.04294, 0.968881],
+    ],
+  },
+  {
+    id: 'tritanopia',
+    label: 'Tritanopia',
+    matrix: [
+      [1.255528, -0.076749, -0.178779],
+      [-0.078411, 0.930809, 0.147602],
+      [0.004733, 0.691367, 0.3039],
+    ],
+  },
+  {
+    id: 'achromatopsia',
+    label: 'Achromatopsia',
+    matrix: [
+      [0.2126, 0.7152, 0.0722],
+      [0.2126, 0.7152, 0.0722],
+      [0.2126, 0.7152, 0.0722],
+    ],
+  },
+]
+
+export function getVision(id: VisionId): Vision {
+  return visions.find((vision) => vision.id === id) || visions[0]
+}
+
+export function simulateVision(rgb: Rgb, vision: Vision): Rgb {
+  const linear = rgb.map(srgbToLinear)
+  return vision.matrix.map((row) =>
+    linearToSrgb(row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2])
+  ) as Rgb
+}
+
+// The values of an SVG feColorMatrix, which works in linear RGB by default
+export function getColorMatrixValues(vision: Vision): string {
+  return [...vision.matrix.map((row) => [...row, 0, 0]), [0, 0, 0, 1, 0]]
+    .map((row) => row.join(' '))
+    .join(' ')
+}
+
+export type VisionColors = {
+  shape: string
+  background: string
+}
+
+const visionColorCandidates = 200
+// Below this the shape is too hard to make out at all
+const minSimulatedDeltaE = 10
+
+// Picks a shape and background color that stand apart with normal vision
+// but blend together with the given deficiency, so its contrast is what
+// makes the round hard
+export function pickVisionColors(vision: Vision, random: Random): VisionColors {
+  let best = { shape: [0, 0, 0] as Rgb, background: [255, 255, 255] as Rgb }
+  let bestContrastLoss = -Infinity
+  for (let i = 0; i < visionColorCandidates; i++) {
+    const shape = makeRandomRgb(random)
+    const background = makeRandomRgb(random)
+    const simulatedDeltaE = getDeltaE(
+      rgbToLab(simulateVision(shape, vision)),
+      rgbToLab(simulateVision(background, vision))
+    )
+    if (simulatedDeltaE < minSimulatedDeltaE) {
+      continue
+    }
+
+    const contrastLoss =
+      getDeltaE(rgbToLab(shape), rgbToLab(background)) / simulatedDeltaE
+    if (contrastLoss > bestContrastLoss) {
+      best = { shape, background }
+      bestContrastLoss = contrastLoss
+    }
+  }
+
+  return {
+    shape: toHexColor(best.shape),
+    background: toHexColor(best.background),
+  }
+}